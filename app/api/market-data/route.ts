@@ -1,8 +1,11 @@
 import { NextResponse } from 'next/server';
-import YahooFinance from 'yahoo-finance2';
-
-// Initialize Yahoo Finance instance (required for v3+)
-const yahooFinance = new YahooFinance();
+import { alignMarketData } from '@/lib/alignment';
+import { DEFAULT_BENCHMARKS, getBenchmarkByTicker } from '@/lib/benchmarks';
+import { assessDataQuality } from '@/lib/data-quality';
+import { combineCacheStatuses } from '@/lib/market-data-cache';
+import type { CacheStatus, PricePoint } from '@/lib/market-data-cache';
+import type { SymbolReport } from '@/lib/types';
+import { getMarketDataProvider, loadPrices } from '@/lib/market-data-providers';
 
 // Force dynamic to prevent static caching issues with external APIs if needed,
 // though for historical data static might be better, we want freshness.
@@ -13,109 +16,85 @@ export async function GET(request: Request) {
     // Allow overriding start date, default to 2020-01-01
     const startDateParam = searchParams.get('startDate') || '2020-01-01';
     const endDateParam = searchParams.get('endDate') || new Date().toISOString().split('T')[0];
+    // refresh=1 ignores the cache and refetches the whole range; refresh=BTC-USD,ETH-USD does so for those tickers only
+    const refreshParam = searchParams.get('refresh');
+    const refreshSymbols = new Set(refreshParam && refreshParam !== '1' ? refreshParam.split(',') : []);
+    const shouldRefresh = (symbol: string) => refreshParam === '1' || refreshSymbols.has(symbol);
 
-    // Parse assets from query parameter
+    // Parse assets from query parameter; an empty list (e.g. an all-cash portfolio) fetches no crypto assets
     const assetsParam = searchParams.get('assets');
-    const requestedAssets = assetsParam ? assetsParam.split(',') : ['BTC-USD', 'ETH-USD', 'SOL-USD'];
+    const requestedAssets = assetsParam !== null
+        ? assetsParam.split(',').filter(Boolean)
+        : ['BTC-USD', 'ETH-USD', 'SOL-USD'];
 
     // Validate assets for security (prevent injection)
     const ASSETS = requestedAssets.filter(asset =>
         /^[A-Z0-9]+-USD$/.test(asset) && requestedAssets.length <= 20
     );
 
-    // Always include S&P 500 for correlation analysis
-    const assetsToFetch = [...ASSETS, '^GSPC'];
+    // Tickers that are dropped are reported back rather than silently missing
+    const symbols: Record<string, SymbolReport> = {};
+    const reject = (ticker: string, error: string) => {
+        symbols[ticker] = { status: 'rejected', error, firstDate: null };
+    };
+    requestedAssets.filter(asset => !ASSETS.includes(asset)).forEach(asset => {
+        reject(asset, requestedAssets.length > 20
+            ? 'At most 20 assets can be requested at once'
+            : 'Not a supported ticker (expected e.g. BTC-USD)');
+    });
+
+    // Benchmarks for correlation and relative metrics, restricted to the known list
+    const benchmarksParam = searchParams.get('benchmarks');
+    const requestedBenchmarks = benchmarksParam !== null
+        ? benchmarksParam.split(',').filter(Boolean)
+        : DEFAULT_BENCHMARKS;
+    const BENCHMARKS = requestedBenchmarks.filter(ticker => getBenchmarkByTicker(ticker) !== undefined);
+    requestedBenchmarks.filter(ticker => !BENCHMARKS.includes(ticker)).forEach(ticker => {
+        reject(ticker, 'Not a supported benchmark');
+    });
+
+    // A benchmark that is also a selected asset (e.g. BTC-USD) is fetched once
+    const assetsToFetch = Array.from(new Set([...ASSETS, ...BENCHMARKS]));
 
     try {
-        const startDate = new Date(startDateParam);
-        const endDate = new Date(endDateParam);
-
-        const allData: Record<string, any[]> = {};
+        // Yahoo unless MARKET_DATA_PROVIDER picks the file or synthetic provider
+        const provider = getMarketDataProvider();
+        const allData: Record<string, PricePoint[]> = {};
+        const cacheStatuses: Record<string, CacheStatus> = {};
+        const fetchErrors: Record<string, string | undefined> = {};
 
-        // Fetch data for all assets in parallel
+        // Fetch data for all assets in parallel, only for dates the cache doesn't already hold
         await Promise.all(
             assetsToFetch.map(async (symbol) => {
-                try {
-                    const result = await yahooFinance.historical(symbol, {
-                        period1: startDate,
-                        period2: endDate,
-                        interval: '1d',
-                    });
-                    allData[symbol] = result;
-                } catch (error) {
-                    console.error(`Failed to fetch data for ${symbol}`, error);
-                    allData[symbol] = [];
-                }
+                const cached = await loadPrices(provider, symbol, startDateParam, endDateParam, shouldRefresh(symbol));
+                allData[symbol] = cached.prices;
+                cacheStatuses[symbol] = cached.status;
+                fetchErrors[symbol] = cached.error;
             })
         );
 
-        // Align data by date
-        // 1. Collect all unique dates
-        const uniqueDates = new Set<string>();
-        Object.values(allData).forEach((data) => {
-            data.forEach((day) => {
-                if (day.date) {
-                    // Format date as YYYY-MM-DD for consistency
-                    // yahoo-finance2 returns Date objects or strings depending on config, usually Date
-                    const dateStr = day.date instanceof Date
-                        ? day.date.toISOString().split('T')[0]
-                        : new Date(day.date).toISOString().split('T')[0];
-                    uniqueDates.add(dateStr);
-                }
-            });
+        // One row per date with every symbol forward-filled; 0 before a symbol's first price
+        const filledData = alignMarketData(allData, assetsToFetch);
+
+        // Status, gaps, jumps and failed fetches per symbol, so the dashboard can tell them from pre-listing days
+        const quality = assessDataQuality(allData, filledData, assetsToFetch, fetchErrors);
+        assetsToFetch.forEach(symbol => {
+            const error = fetchErrors[symbol];
+            const hasPrices = allData[symbol].length > 0;
+            symbols[symbol] = {
+                status: error ? (hasPrices ? 'stale' : 'failed') : (hasPrices ? 'ok' : 'no-data'),
+                error: error ?? null,
+                firstDate: quality[symbol].firstDate,
+                quality: quality[symbol]
+            };
         });
 
-        const sortedDates = Array.from(uniqueDates).sort();
-
-        // 2. Build the result array
-        const alignedData = sortedDates.map((dateStr) => {
-            const dayRecord: Record<string, any> = { date: dateStr };
-
-            assetsToFetch.forEach((symbol) => {
-                const symbolData = allData[symbol];
-                // Find the record for this date
-                const entry = symbolData.find((d) => {
-                    const dStr = d.date instanceof Date
-                        ? d.date.toISOString().split('T')[0]
-                        : new Date(d.date).toISOString().split('T')[0];
-                    return dStr === dateStr;
-                });
-
-                if (entry) {
-                    dayRecord[symbol] = entry.adjClose || entry.close;
-                } else {
-                    // If missing, we could forward fill from previous day in the loop, 
-                    // but for efficient mapping we might need a more stateful approach.
-                    // For now, leave undefined and handle in frontend or second pass.
-                    dayRecord[symbol] = null;
-                }
-            });
-            return dayRecord;
-        });
-
-        // 3. Forward Fill missing values (Basic)
-        // Crypto trades 24/7 so gaps are rare but specific asset outages or listing dates differ.
-        // e.g. SOL might not exist in Jan 2020 (Mainnet launch March 2020).
-        const filledData = [];
-        let lastKnownValues: Record<string, number> = {};
-
-        for (const day of alignedData) {
-            const newDay: Record<string, any> = { ...day };
-            assetsToFetch.forEach(symbol => {
-                if (newDay[symbol] !== null && newDay[symbol] !== undefined) {
-                    lastKnownValues[symbol] = newDay[symbol];
-                } else if (lastKnownValues[symbol] !== undefined) {
-                    newDay[symbol] = lastKnownValues[symbol];
-                } else {
-                    // If never seen before (before listing), keep as 0 or null?
-                    // 0 is safer for "value = units * price" logic (value is 0).
-                    newDay[symbol] = 0;
-                }
-            });
-            filledData.push(newDay);
-        }
-
-        return NextResponse.json(filledData);
+        // Overall status plus one entry per symbol, e.g. "BTC-USD=hit,^GSPC=partial"
+        const response = NextResponse.json({ data: filledData, symbols });
+        response.headers.set('X-Market-Data-Provider', provider.name);
+        response.headers.set('X-Cache-Status', combineCacheStatuses(Object.values(cacheStatuses)));
+        response.headers.set('X-Cache-Symbols', assetsToFetch.map(symbol => `${symbol}=${cacheStatuses[symbol]}`).join(','));
+        return response;
 
     } catch (error) {
         console.error('Error fetching market data:', error);
@@ -42,6 +42,11 @@ export function AssetAllocator({ selectedAssets, weights, onWeightChange, classN
                                 <Label className="flex items-center gap-2">
                                     <div className={cn("w-3 h-3 rounded-full", color)} />
                                     {label}
+                                    {asset?.stakingYield && (
+                                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0 font-mono">
+                                            {asset.stakingYield}% APY
+                                        </Badge>
+                                    )}
                                 </Label>
                                 <div className="flex items-center gap-2">
                                     <Input
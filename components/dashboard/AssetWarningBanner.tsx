@@ -1,23 +1,78 @@
 "use client"
 
-import { AlertTriangle, X } from "lucide-react";
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp, RefreshCw, X } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { GAP_WARNING_DAYS, hasDataQualityIssues, JUMP_THRESHOLD, STALE_RUN_DAYS } from "@/lib/data-quality";
+import type { DataQuality, PreListingPolicy, SymbolReport } from "@/lib/types";
 
 interface AssetWarningBannerProps {
     invalidAssets: string[];
     startDate: string;
     earliestValidDate: string;
+    preListingPolicy: PreListingPolicy;
+    symbolReports?: { [ticker: string]: SymbolReport }; // Per-ticker outcome from the market-data route
+    onRetry?: (ticker: string) => void;
+    retrying?: boolean;
     onDismiss?: () => void;
 }
 
+const POLICY_LABELS: Record<PreListingPolicy, string> = {
+    'cash': 'Hold cash until listing',
+    'redistribute': 'Redistribute until listing',
+    'start-at-listing': 'Start at listing',
+};
+
+// Helper to describe a symbol's data quality problems in a few words each (fetch failures are listed separately)
+function describeIssues(quality: DataQuality): string[] {
+    const issues: string[] = [];
+    if (!quality.fetchFailed && quality.firstDate === null) {
+        issues.push('no prices in this date range');
+    }
+    if (quality.longestGapDays > GAP_WARNING_DAYS) {
+        issues.push(`${quality.longestGapDays}-day gap in prices (forward-filled)`);
+    }
+    quality.jumps.forEach(jump => {
+        issues.push(`${jump.change >= 0 ? '+' : ''}${(jump.change * 100).toFixed(0)}% move on ${jump.date}`);
+    });
+    quality.staleRuns.forEach(run => {
+        issues.push(`price unchanged for ${run.days} days (${run.startDate} to ${run.endDate})`);
+    });
+    return issues;
+}
+
 export function AssetWarningBanner({
     invalidAssets,
     startDate,
     earliestValidDate,
+    preListingPolicy,
+    symbolReports = {},
+    onRetry,
+    retrying = false,
     onDismiss
 }: AssetWarningBannerProps) {
-    if (invalidAssets.length === 0) return null;
+    const [expanded, setExpanded] = useState(false);
+
+    // An asset without prices at the start hasn't listed yet, unless the fetch failed or returned nothing
+    const reports = Object.entries(symbolReports);
+    const failures = reports.filter(([, report]) =>
+        report.status === 'failed' || report.status === 'stale' || report.status === 'rejected'
+    );
+    const notYetListed = invalidAssets.filter(ticker => {
+        const status = symbolReports[ticker]?.status;
+        return status !== 'failed' && status !== 'rejected' && status !== 'no-data';
+    });
+    const quality = reports
+        .map(([, report]) => report.quality)
+        .filter((q): q is DataQuality => q !== undefined);
+    const flagged = quality.filter(q => hasDataQualityIssues(q) && describeIssues(q).length > 0);
+    const firstDateOf = (ticker: string) => symbolReports[ticker]?.firstDate;
+
+    if (failures.length === 0 && notYetListed.length === 0 && flagged.length === 0) return null;
+
+    const getSymbol = (ticker: string) => ticker.replace('-USD', '');
+    const assetList = notYetListed.map(getSymbol).join(', ');
 
     return (
         <Card className="border-orange-500/50 bg-orange-500/10">
@@ -26,21 +81,144 @@ export function AssetWarningBanner({
                     <div className="flex items-start gap-3">
                         <AlertTriangle className="h-5 w-5 text-orange-500 mt-0.5 flex-shrink-0" />
                         <div className="space-y-2">
-                            <p className="text-sm font-medium">
-                                Some assets were not available on {startDate}
-                            </p>
-                            <p className="text-sm text-muted-foreground">
-                                The following assets have been excluded from the portfolio: {' '}
-                                <span className="font-medium text-foreground">
-                                    {invalidAssets.map(a => a.replace('-USD', '')).join(', ')}
-                                </span>
-                            </p>
-                            {earliestValidDate && (
-                                <p className="text-sm text-muted-foreground">
-                                    <strong>Suggestion:</strong> Select a start date on or after{' '}
-                                    <span className="font-medium text-foreground">{earliestValidDate}</span>
-                                    {' '}to include all selected assets.
-                                </p>
+                            {failures.length > 0 && (
+                                <>
+                                    <p className="text-sm font-medium">Some prices could not be loaded</p>
+                                    <ul className="text-sm text-muted-foreground space-y-1">
+                                        {failures.map(([ticker, report]) => (
+                                            <li key={ticker} className="flex flex-wrap items-center gap-2">
+                                                <span>
+                                                    <span className="font-medium text-foreground">{getSymbol(ticker)}:</span>{' '}
+                                                    {report.status === 'stale'
+                                                        ? `fetch failed, showing cached prices through ${report.quality?.lastDate}`
+                                                        : report.status === 'rejected'
+                                                            ? report.error
+                                                            : `fetch failed${report.error ? ` (${report.error})` : ''}; its allocation is handled like an unlisted asset until prices load`}
+                                                </span>
+                                                {onRetry && report.status !== 'rejected' && (
+                                                    <Button
+                                                        type="button"
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="h-6 px-2 text-xs gap-1"
+                                                        onClick={() => onRetry(ticker)}
+                                                        disabled={retrying}
+                                                    >
+                                                        <RefreshCw className="h-3 w-3" />
+                                                        Retry
+                                                    </Button>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+
+                            {notYetListed.length > 0 && (
+                                <>
+                                    <p className="text-sm font-medium">
+                                        Some assets were not available on {startDate}
+                                    </p>
+                                    <p className="text-sm text-muted-foreground">
+                                        Not yet listed: {' '}
+                                        <span className="font-medium text-foreground">{assetList}</span>
+                                        {notYetListed.some(firstDateOf) && (
+                                            <> ({notYetListed
+                                                .filter(firstDateOf)
+                                                .map(ticker => `${getSymbol(ticker)} from ${firstDateOf(ticker)}`)
+                                                .join(', ')})</>
+                                        )}
+                                    </p>
+                                    <p className="text-sm text-muted-foreground">
+                                        <strong>Active policy:</strong>{' '}
+                                        <span className="font-medium text-foreground">{POLICY_LABELS[preListingPolicy]}</span>
+                                        {' '}&mdash;{' '}
+                                        {preListingPolicy === 'cash' && 'their allocation is held in cash and bought in on each listing date.'}
+                                        {preListingPolicy === 'redistribute' && 'their allocation is spread pro-rata across listed assets, then rebalanced in on each listing date.'}
+                                        {preListingPolicy === 'start-at-listing' && (
+                                            earliestValidDate
+                                                ? <>the backtest starts on <span className="font-medium text-foreground">{earliestValidDate}</span>, when all selected assets are available.</>
+                                                : 'no date in this range has prices for every selected asset.'
+                                        )}
+                                    </p>
+                                    {earliestValidDate && preListingPolicy !== 'start-at-listing' && (
+                                        <p className="text-sm text-muted-foreground">
+                                            <strong>Suggestion:</strong> Select a start date on or after{' '}
+                                            <span className="font-medium text-foreground">{earliestValidDate}</span>
+                                            {' '}to include all selected assets from day one.
+                                        </p>
+                                    )}
+                                </>
+                            )}
+
+                            {flagged.length > 0 && (
+                                <>
+                                    <p className="text-sm font-medium">Data quality warnings</p>
+                                    <ul className="text-sm text-muted-foreground space-y-1">
+                                        {flagged.map(q => {
+                                            const issues = describeIssues(q);
+                                            return (
+                                                <li key={q.symbol}>
+                                                    <span className="font-medium text-foreground">{getSymbol(q.symbol)}:</span>{' '}
+                                                    {issues.slice(0, 3).join('; ')}
+                                                    {issues.length > 3 && ` (+${issues.length - 3} more)`}
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </>
+                            )}
+
+                            {quality.length > 0 && (
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 px-2 -ml-2 text-xs gap-1"
+                                    onClick={() => setExpanded(prev => !prev)}
+                                >
+                                    {expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                                    {expanded ? 'Hide data report' : 'Show data report'}
+                                </Button>
+                            )}
+
+                            {expanded && (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="border-b">
+                                                <th className="text-left py-1 px-1 font-medium text-muted-foreground">Symbol</th>
+                                                <th className="text-left py-1 px-1 font-medium text-muted-foreground">First</th>
+                                                <th className="text-left py-1 px-1 font-medium text-muted-foreground">Last</th>
+                                                <th className="text-right py-1 px-1 font-medium text-muted-foreground">Filled Days</th>
+                                                <th className="text-right py-1 px-1 font-medium text-muted-foreground">Longest Gap</th>
+                                                <th className="text-right py-1 px-1 font-medium text-muted-foreground">Jumps</th>
+                                                <th className="text-right py-1 px-1 font-medium text-muted-foreground">Stale Runs</th>
+                                                <th className="text-left py-1 px-1 font-medium text-muted-foreground">Fetch</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {quality.map(q => (
+                                                <tr key={q.symbol} className="border-b last:border-0">
+                                                    <td className="py-1 px-1 font-medium">{getSymbol(q.symbol)}</td>
+                                                    <td className="py-1 px-1">{q.firstDate ?? '-'}</td>
+                                                    <td className="py-1 px-1">{q.lastDate ?? '-'}</td>
+                                                    <td className="py-1 px-1 text-right">{q.forwardFilledDays}</td>
+                                                    <td className="py-1 px-1 text-right">{q.longestGapDays}d</td>
+                                                    <td className="py-1 px-1 text-right">{q.jumps.length}</td>
+                                                    <td className="py-1 px-1 text-right">{q.staleRuns.length}</td>
+                                                    <td className={`py-1 px-1 ${q.fetchFailed ? 'text-red-600' : ''}`} title={q.error}>
+                                                        {q.fetchFailed ? 'Failed' : 'OK'}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    <p className="text-xs text-muted-foreground/70 mt-1">
+                                        Jumps are daily moves beyond {JUMP_THRESHOLD * 100}%; stale runs are {STALE_RUN_DAYS}+ identical
+                                        prices in a row. Filled days carry the last price forward (weekends for stock benchmarks).
+                                    </p>
+                                </div>
                             )}
                         </div>
                     </div>
@@ -0,0 +1,126 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AVAILABLE_BENCHMARKS } from "@/lib/benchmarks";
+import type { BenchmarkMetrics } from "@/lib/finance";
+
+// Select items can't have an empty value, so "no saved portfolio" gets a sentinel
+const NO_SAVED_BENCHMARK = 'none';
+
+interface BenchmarkAnalyticsProps {
+    selectedBenchmarks: string[];
+    onToggleBenchmark: (ticker: string) => void;
+    savedOptions: { value: string; label: string }[];
+    selectedSaved: string; // Saved portfolio id, or '' for none
+    onSelectSaved: (value: string) => void;
+    onOpenSaved?: () => void;
+    comparisons: { name: string; metrics?: BenchmarkMetrics }[];
+}
+
+export function BenchmarkAnalytics({
+    selectedBenchmarks,
+    onToggleBenchmark,
+    savedOptions,
+    selectedSaved,
+    onSelectSaved,
+    onOpenSaved,
+    comparisons
+}: BenchmarkAnalyticsProps) {
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    return (
+        <Card className="border-0 shadow-sm">
+            <CardHeader className="space-y-3 pb-3">
+                <div className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-sm font-medium">Benchmark Comparison</CardTitle>
+                    <Select
+                        value={selectedSaved || NO_SAVED_BENCHMARK}
+                        onValueChange={(value) => onSelectSaved(value === NO_SAVED_BENCHMARK ? '' : value)}
+                        onOpenChange={(open) => { if (open) onOpenSaved?.(); }}
+                    >
+                        <SelectTrigger className="w-[200px] h-8 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={NO_SAVED_BENCHMARK} className="text-xs">
+                                No saved portfolio
+                            </SelectItem>
+                            {savedOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value} className="text-xs">
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                    {AVAILABLE_BENCHMARKS.map(benchmark => (
+                        <Button
+                            key={benchmark.ticker}
+                            type="button"
+                            variant={selectedBenchmarks.includes(benchmark.ticker) ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onToggleBenchmark(benchmark.ticker)}
+                            className="text-xs h-7 px-2"
+                        >
+                            {benchmark.name}
+                        </Button>
+                    ))}
+                </div>
+            </CardHeader>
+            <CardContent>
+                {comparisons.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                        Pick a benchmark to compare against
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b">
+                                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Benchmark</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Correlation</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Beta</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Alpha</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Tracking Error</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Info Ratio</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Up Capture</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Down Capture</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {comparisons.map(({ name, metrics }) => (
+                                    <tr key={name} className="border-b last:border-0">
+                                        <td className="py-2 px-2 whitespace-nowrap">{name}</td>
+                                        {metrics ? (
+                                            <>
+                                                <td className="text-right py-2 px-2">{metrics.correlation.toFixed(2)}</td>
+                                                <td className="text-right py-2 px-2">{metrics.beta.toFixed(2)}</td>
+                                                <td className={`text-right py-2 px-2 ${metrics.alpha >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {formatPercent(metrics.alpha)}
+                                                </td>
+                                                <td className="text-right py-2 px-2">{formatPercent(metrics.trackingError)}</td>
+                                                <td className="text-right py-2 px-2">{metrics.informationRatio.toFixed(2)}</td>
+                                                <td className="text-right py-2 px-2">{formatPercent(metrics.upCapture)}</td>
+                                                <td className="text-right py-2 px-2">{formatPercent(metrics.downCapture)}</td>
+                                            </>
+                                        ) : (
+                                            <td colSpan={7} className="text-right py-2 px-2 text-muted-foreground">
+                                                Not enough overlapping data
+                                            </td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <p className="text-xs text-muted-foreground/70 mt-3">
+                    Alpha is Jensen&apos;s alpha (annualized, 3% RFR). Capture ratios compare average returns in periods the benchmark rose or fell.
+                </p>
+            </CardContent>
+        </Card>
+    );
+}
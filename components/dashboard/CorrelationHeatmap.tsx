@@ -0,0 +1,138 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ROLLING_WINDOW_OPTIONS } from "@/lib/finance";
+import type { CorrelationMatrix } from "@/lib/finance";
+import type { ReturnFrequency } from "@/lib/types";
+
+// Select items can't have an empty value, so the full period gets a sentinel
+const FULL_PERIOD = 'full';
+
+const FREQUENCY_OPTIONS: { value: ReturnFrequency; label: string }[] = [
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+];
+
+interface CorrelationHeatmapProps {
+    matrix: CorrelationMatrix;
+    labels: { [ticker: string]: string };
+    frequency: ReturnFrequency;
+    onFrequencyChange: (frequency: ReturnFrequency) => void;
+    windowDays: number | null; // null for the full period
+    onWindowChange: (windowDays: number | null) => void;
+}
+
+// Blue for negative, white for zero, red for positive correlation
+function getCellColor(correlation: number): string {
+    const intensity = Math.min(1, Math.abs(correlation));
+    return correlation >= 0
+        ? `rgba(239, 68, 68, ${intensity * 0.8})`
+        : `rgba(59, 130, 246, ${intensity * 0.8})`;
+}
+
+export function CorrelationHeatmap({
+    matrix,
+    labels,
+    frequency,
+    onFrequencyChange,
+    windowDays,
+    onWindowChange
+}: CorrelationHeatmapProps) {
+    const formatWindow = (days: number) =>
+        days % 365 === 0 ? `Trailing ${days / 365}Y` : `Trailing ${days}D`;
+
+    return (
+        <Card className="border-0 shadow-sm">
+            <CardHeader className="space-y-3 pb-3">
+                <div className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-sm font-medium">Correlation Matrix</CardTitle>
+                    <Select
+                        value={windowDays === null ? FULL_PERIOD : String(windowDays)}
+                        onValueChange={(value) => onWindowChange(value === FULL_PERIOD ? null : Number(value))}
+                    >
+                        <SelectTrigger className="w-[140px] h-8 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={FULL_PERIOD} className="text-xs">
+                                Full period
+                            </SelectItem>
+                            {ROLLING_WINDOW_OPTIONS.map(days => (
+                                <SelectItem key={days} value={String(days)} className="text-xs">
+                                    {formatWindow(days)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="flex gap-1">
+                    {FREQUENCY_OPTIONS.map(option => (
+                        <Button
+                            key={option.value}
+                            type="button"
+                            variant={frequency === option.value ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onFrequencyChange(option.value)}
+                            className="text-xs h-7 px-2"
+                        >
+                            {option.label}
+                        </Button>
+                    ))}
+                </div>
+            </CardHeader>
+            <CardContent>
+                {matrix.tickers.length < 2 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                        Select at least two assets or benchmarks
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="text-xs mx-auto border-separate border-spacing-0.5">
+                            <thead>
+                                <tr>
+                                    <th />
+                                    {matrix.tickers.map(ticker => (
+                                        <th key={ticker} className="px-1 pb-1 font-medium text-muted-foreground whitespace-nowrap">
+                                            {labels[ticker] ?? ticker}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {matrix.tickers.map((rowTicker, row) => (
+                                    <tr key={rowTicker}>
+                                        <th className="pr-2 text-right font-medium text-muted-foreground whitespace-nowrap">
+                                            {labels[rowTicker] ?? rowTicker}
+                                        </th>
+                                        {matrix.tickers.map((columnTicker, column) => {
+                                            const correlation = matrix.correlations[row][column];
+                                            return (
+                                                <td
+                                                    key={columnTicker}
+                                                    className="w-12 h-9 text-center font-mono rounded"
+                                                    style={correlation !== null ? { backgroundColor: getCellColor(correlation) } : undefined}
+                                                    title={`${labels[rowTicker] ?? rowTicker} / ${labels[columnTicker] ?? columnTicker}: ${matrix.observations[row][column]} returns`}
+                                                >
+                                                    {correlation !== null
+                                                        ? correlation.toFixed(2)
+                                                        : <span className="text-muted-foreground">-</span>}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <p className="text-xs text-muted-foreground/70 mt-3">
+                    Pearson correlation of {frequency} returns. Pairs with stock-market benchmarks skip weekends;
+                    pairs with fewer than 10 overlapping returns show as -.
+                </p>
+            </CardContent>
+        </Card>
+    );
+}
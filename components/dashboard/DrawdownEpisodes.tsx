@@ -0,0 +1,64 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { DrawdownEpisode } from "@/lib/finance";
+
+interface DrawdownEpisodesProps {
+    episodes: DrawdownEpisode[];
+}
+
+export function DrawdownEpisodes({ episodes }: DrawdownEpisodesProps) {
+    const formatDate = (date: string) =>
+        new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    const formatDays = (days: number) => `${days} day${days === 1 ? '' : 's'}`;
+
+    return (
+        <Card className="border-0 shadow-sm">
+            <CardHeader>
+                <CardTitle className="text-sm font-medium">Worst Drawdowns</CardTitle>
+            </CardHeader>
+            <CardContent>
+                {episodes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No drawdowns in this period</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b">
+                                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">#</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Depth</th>
+                                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Peak</th>
+                                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Trough</th>
+                                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Recovery</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Decline</th>
+                                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Recovery Time</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {episodes.map((episode, index) => (
+                                    <tr key={episode.peakDate} className="border-b last:border-0">
+                                        <td className="py-2 px-2 text-muted-foreground">{index + 1}</td>
+                                        <td className="text-right py-2 px-2 font-medium text-red-600">
+                                            -{(episode.depth * 100).toFixed(1)}%
+                                        </td>
+                                        <td className="py-2 px-2 whitespace-nowrap">{formatDate(episode.peakDate)}</td>
+                                        <td className="py-2 px-2 whitespace-nowrap">{formatDate(episode.troughDate)}</td>
+                                        <td className="py-2 px-2 whitespace-nowrap">
+                                            {episode.recoveryDate
+                                                ? formatDate(episode.recoveryDate)
+                                                : <span className="text-orange-500">Not recovered</span>}
+                                        </td>
+                                        <td className="text-right py-2 px-2 text-muted-foreground">{formatDays(episode.declineDays)}</td>
+                                        <td className="text-right py-2 px-2 text-muted-foreground">
+                                            {episode.recoveryDays !== null ? formatDays(episode.recoveryDays) : '-'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,265 @@
+"use client"
+
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Sparkles } from "lucide-react";
+import { calculateProjectionOdds, PROJECTION_PATH_OPTIONS, PROJECTION_YEAR_OPTIONS } from "@/lib/projection";
+import type { PortfolioProjection, ProjectionMethod } from "@/lib/projection";
+
+const METHOD_OPTIONS: { value: ProjectionMethod; label: string; description: string }[] = [
+    { value: 'bootstrap', label: 'Bootstrap', description: 'Replays 20-day blocks of historical daily returns in random order' },
+    { value: 'normal', label: 'Normal', description: 'Draws daily log returns from a multivariate normal fitted to history' },
+    { value: 'student-t', label: 'Student-t', description: 'Like Normal, with fatter tails (5 degrees of freedom)' },
+];
+
+interface MonteCarloProjectionProps {
+    projection: PortfolioProjection | null;
+    hasRun: boolean;
+    stale: boolean; // Settings changed since the last run
+    running: boolean;
+    progress: number; // Share of paths simulated while running (0-1)
+    onRun: () => void;
+    method: ProjectionMethod;
+    onMethodChange: (method: ProjectionMethod) => void;
+    years: number;
+    onYearsChange: (years: number) => void;
+    paths: number;
+    onPathsChange: (paths: number) => void;
+    goal: number | null; // Dollars
+    onGoalChange: (goal: number | null) => void;
+    lossPercent: number;
+    onLossPercentChange: (lossPercent: number) => void;
+}
+
+interface FanPoint {
+    date: string;
+    outer: [number, number]; // 5th-95th percentile
+    inner: [number, number]; // 25th-75th percentile
+    median: number;
+}
+
+interface FanTooltipProps {
+    active?: boolean;
+    payload?: { payload: FanPoint }[];
+}
+
+const formatCurrency = (val: number) => {
+    if (val >= 1000000) return `$${(val / 1000000).toFixed(1)}M`;
+    if (val >= 1000) return `$${(val / 1000).toFixed(0)}k`;
+    return `$${val.toFixed(0)}`;
+};
+
+// Defined outside MonteCarloProjection so recharts doesn't remount it on every render
+function FanTooltip({ active, payload }: FanTooltipProps) {
+    if (active && payload && payload.length) {
+        const point = payload[0].payload;
+        return (
+            <div className="bg-white/90 dark:bg-black/90 p-2 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-xs">
+                <p className="font-semibold">{point.date}</p>
+                <p className="font-mono">95th: {formatCurrency(point.outer[1])}</p>
+                <p className="font-mono">75th: {formatCurrency(point.inner[1])}</p>
+                <p className="font-mono font-semibold">Median: {formatCurrency(point.median)}</p>
+                <p className="font-mono">25th: {formatCurrency(point.inner[0])}</p>
+                <p className="font-mono">5th: {formatCurrency(point.outer[0])}</p>
+            </div>
+        );
+    }
+    return null;
+}
+
+export function MonteCarloProjection({
+    projection,
+    hasRun,
+    stale,
+    running,
+    progress,
+    onRun,
+    method,
+    onMethodChange,
+    years,
+    onYearsChange,
+    paths,
+    onPathsChange,
+    goal,
+    onGoalChange,
+    lossPercent,
+    onLossPercentChange
+}: MonteCarloProjectionProps) {
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const formatDate = (str: string) => {
+        const date = new Date(str);
+        return date.toLocaleDateString(undefined, { year: '2-digit', month: 'short' });
+    };
+
+    const fanData: FanPoint[] = projection
+        ? projection.points.map(point => ({
+            date: point.date,
+            outer: [point.p5, point.p95],
+            inner: [point.p25, point.p75],
+            median: point.p50
+        }))
+        : [];
+    const odds = projection ? calculateProjectionOdds(projection, goal, lossPercent) : null;
+    const medianFinal = projection && projection.points.length > 0
+        ? projection.points[projection.points.length - 1].p50
+        : null;
+
+    return (
+        <Card className="border-0 shadow-sm">
+            <CardHeader className="space-y-3 pb-3">
+                <div className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-lg">Monte Carlo Projection</CardTitle>
+                    <Sparkles className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                    {METHOD_OPTIONS.map(option => (
+                        <Button
+                            key={option.value}
+                            type="button"
+                            variant={method === option.value ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onMethodChange(option.value)}
+                            className="text-xs h-7 px-2"
+                        >
+                            {option.label}
+                        </Button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-xs text-muted-foreground mr-1">Years</span>
+                    {PROJECTION_YEAR_OPTIONS.map(option => (
+                        <Button
+                            key={option}
+                            type="button"
+                            variant={years === option ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onYearsChange(option)}
+                            className="text-xs h-7 px-2"
+                        >
+                            {option}
+                        </Button>
+                    ))}
+                    <span className="text-xs text-muted-foreground ml-3 mr-1">Paths</span>
+                    {PROJECTION_PATH_OPTIONS.map(option => (
+                        <Button
+                            key={option}
+                            type="button"
+                            variant={paths === option ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onPathsChange(option)}
+                            className="text-xs h-7 px-2"
+                        >
+                            {option.toLocaleString()}
+                        </Button>
+                    ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                    {METHOD_OPTIONS.find(option => option.value === method)?.description}
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                        <Label htmlFor="projectionGoal" className="text-xs text-muted-foreground">Goal ($)</Label>
+                        <Input
+                            id="projectionGoal"
+                            type="number"
+                            value={goal ?? ''}
+                            onChange={(e) => onGoalChange(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                            placeholder="None"
+                            className="h-8 font-mono"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="projectionLoss" className="text-xs text-muted-foreground">Loss of more than (%)</Label>
+                        <Input
+                            id="projectionLoss"
+                            type="number"
+                            value={lossPercent}
+                            onChange={(e) => onLossPercentChange(Math.min(100, Math.max(0, Number(e.target.value))))}
+                            className="h-8 font-mono"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground/70">
+                        {stale && hasRun ? 'Settings changed since the last run' : 'Uses the current allocation, rebalancing and cash flow settings'}
+                    </p>
+                    <Button type="button" size="sm" className="h-8 text-xs" onClick={onRun} disabled={running}>
+                        {running ? `Simulating... ${Math.round(progress * 100)}%` : hasRun ? 'Re-run' : 'Run simulation'}
+                    </Button>
+                </div>
+
+                {hasRun && !projection && !running && (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                        Need at least 30 days where every selected asset has prices
+                    </p>
+                )}
+
+                {projection && (
+                    <>
+                        <div className={`h-[260px] ${stale ? 'opacity-50' : ''}`}>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <ComposedChart data={fanData}>
+                                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e5e5" />
+                                    <XAxis
+                                        dataKey="date"
+                                        tickFormatter={formatDate}
+                                        minTickGap={50}
+                                        tick={{ fontSize: 12, fill: '#888' }}
+                                        axisLine={false}
+                                        tickLine={false}
+                                    />
+                                    <YAxis
+                                        tickFormatter={formatCurrency}
+                                        tick={{ fontSize: 12, fill: '#888' }}
+                                        axisLine={false}
+                                        tickLine={false}
+                                        width={60}
+                                    />
+                                    <Tooltip content={<FanTooltip />} />
+                                    <Area type="monotone" dataKey="outer" stroke="none" fill="#6366f1" fillOpacity={0.15} isAnimationActive={false} />
+                                    <Area type="monotone" dataKey="inner" stroke="none" fill="#6366f1" fillOpacity={0.3} isAnimationActive={false} />
+                                    <Line type="monotone" dataKey="median" stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+                                    {goal !== null && goal > 0 && (
+                                        <ReferenceLine y={goal} stroke="#16a34a" strokeDasharray="4 2" />
+                                    )}
+                                </ComposedChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-3 text-center">
+                            <div>
+                                <p className="text-xs text-muted-foreground">Median outcome</p>
+                                <p className="text-lg font-bold metric-value">{medianFinal !== null ? formatCurrency(medianFinal) : '-'}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground">Reach goal</p>
+                                <p className="text-lg font-bold metric-value text-green-600">
+                                    {odds?.goalProbability !== null && odds?.goalProbability !== undefined ? formatPercent(odds.goalProbability) : '-'}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground">Lose &gt; {lossPercent}%</p>
+                                <p className="text-lg font-bold metric-value text-red-500">
+                                    {odds ? formatPercent(odds.lossProbability) : '-'}
+                                </p>
+                            </div>
+                        </div>
+
+                        <p className="text-xs text-muted-foreground/70">
+                            Shaded bands are the 5th-95th and 25th-75th percentiles of {projection.paths.toLocaleString()} paths
+                            starting from {formatCurrency(projection.startValue)}, drawn from {projection.observations} days of history.
+                            Goal and loss odds are measured at the horizon; losses are relative to the start value plus net contributions.
+                            Historical returns are not a forecast.
+                        </p>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
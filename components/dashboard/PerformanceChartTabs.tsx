@@ -1,5 +1,6 @@
 "use client"
 
+import { useState } from "react";
 import {
     XAxis,
     YAxis,
@@ -10,20 +11,178 @@ import {
     Area,
     LineChart,
     Line,
+    ComposedChart,
     ReferenceLine
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
-import { RollingMetricsData } from "@/lib/finance";
+import { DailyHoldings, ROLLING_WINDOW_OPTIONS, RollingMetricsData } from "@/lib/finance";
+import { getAssetByTicker } from "@/lib/crypto-assets";
 
 interface PerformanceChartTabsProps {
     portfolioData: { date: string; value: number }[];
     rollingMetrics: RollingMetricsData[];
+    rollingWindow: number; // Days per rolling window
+    rollingStep: number; // Days between rolling samples
+    onRollingWindowChange: (days: number) => void;
+    onRollingStepChange: (days: number) => void;
+    rollingBenchmarkName?: string; // Benchmark behind rolling beta/correlation, if any
+    holdings?: DailyHoldings[];
+    targetWeights?: { [ticker: string]: number }; // percentages
+    targetHistory?: { date: string; weights: { [ticker: string]: number } }[]; // Rule-based targets, when a weighting scheme is active
+    rebalanceDates?: string[];
+    benchmarkOverlays?: { ticker: string; name: string; color: string; values: { date: string; value: number }[] }[];
+    underwater?: { date: string; drawdown: number }[];
     className?: string;
 }
 
-export function PerformanceChartTabs({ portfolioData, rollingMetrics, className }: PerformanceChartTabsProps) {
+// Fallback colors for assets without a chartColor in crypto-assets
+const FALLBACK_COLORS = ['#f97316', '#2563eb', '#a855f7', '#eab308', '#ef4444', '#14b8a6', '#ec4899', '#6b7280'];
+const PENDING_CASH_KEY = 'Pending cash';
+
+type RollingMetricKey = Exclude<keyof RollingMetricsData, 'date'>;
+
+const ROLLING_METRICS: { key: RollingMetricKey; label: string; color: string; isPercent: boolean; needsBenchmark?: boolean }[] = [
+    { key: 'return', label: 'Return', color: '#16a34a', isPercent: true },
+    { key: 'sharpeRatio', label: 'Sharpe', color: '#3b82f6', isPercent: false },
+    { key: 'sortinoRatio', label: 'Sortino', color: '#8b5cf6', isPercent: false },
+    { key: 'volatility', label: 'Volatility', color: '#f97316', isPercent: true },
+    { key: 'maxDrawdown', label: 'Max Drawdown', color: '#ef4444', isPercent: true },
+    { key: 'beta', label: 'Beta', color: '#0ea5e9', isPercent: false, needsBenchmark: true },
+    { key: 'correlation', label: 'Correlation', color: '#14b8a6', isPercent: false, needsBenchmark: true },
+];
+
+const ROLLING_STEP_OPTIONS = [
+    { days: 1, label: 'Daily' },
+    { days: 7, label: 'Weekly' },
+    { days: 30, label: 'Monthly' },
+];
+
+const formatWindow = (days: number) =>
+    days % 365 === 0 ? `${days / 365}Y` : `${days}D`;
+
+// Beyond this many rebalance markers (e.g. daily rebalancing) the lines hide the areas
+const MAX_REBALANCE_MARKERS = 60;
+
+interface BenchmarkTooltipEntry {
+    dataKey: string;
+    name: string;
+    value: number | null;
+    color: string;
+}
+
+interface AllocationTooltipProps {
+    active?: boolean;
+    payload?: { dataKey: string; value: number; color: string }[];
+    label?: string;
+    targetWeights: { [ticker: string]: number };
+    targetHistory: { date: string; weights: { [ticker: string]: number } }[];
+}
+
+// Helper to find the targets in effect on a date: the latest rule-based update on or before it,
+// falling back to the static targets
+function getTargetsOn(
+    date: string,
+    targetWeights: { [ticker: string]: number },
+    targetHistory: { date: string; weights: { [ticker: string]: number } }[]
+): { [ticker: string]: number } {
+    let targets = targetHistory.length > 0 ? targetHistory[0].weights : targetWeights;
+    for (const entry of targetHistory) {
+        if (entry.date > date) break;
+        targets = entry.weights;
+    }
+    return targets;
+}
+
+// Defined outside PerformanceChartTabs so recharts doesn't remount it on every render
+function AllocationTooltip({ active, payload, label, targetWeights, targetHistory }: AllocationTooltipProps) {
+    if (active && payload && payload.length && label) {
+        const targets = getTargetsOn(label, targetWeights, targetHistory);
+        return (
+            <div className="bg-white/90 dark:bg-black/90 p-3 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-sm">
+                <p className="font-semibold mb-1">{new Date(label).toLocaleDateString()}</p>
+                {[...payload].reverse().map(entry => {
+                    const target = targets[entry.dataKey];
+                    return (
+                        <p key={entry.dataKey} className="font-mono text-xs" style={{ color: entry.color }}>
+                            {entry.dataKey.replace('-USD', '')}: {entry.value.toFixed(1)}%
+                            {target !== undefined && (
+                                <span className="text-muted-foreground"> (target {Math.round(target * 10) / 10}%)</span>
+                            )}
+                        </p>
+                    );
+                })}
+            </div>
+        );
+    }
+    return null;
+}
+
+interface RollingTooltipProps {
+    active?: boolean;
+    payload?: { value: number | null }[];
+    label?: string;
+    metricLabel: string;
+    color: string;
+    isPercent: boolean;
+}
+
+function RollingTooltip({ active, payload, label, metricLabel, color, isPercent }: RollingTooltipProps) {
+    if (active && payload && payload.length && payload[0].value !== null && label) {
+        const value = payload[0].value;
+        return (
+            <div className="bg-white/90 dark:bg-black/90 p-3 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-sm">
+                <p className="font-semibold mb-1">{new Date(label).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}</p>
+                <p className="font-mono" style={{ color }}>
+                    {metricLabel}: {isPercent ? `${(value * 100).toFixed(1)}%` : value.toFixed(2)}
+                </p>
+            </div>
+        );
+    }
+    return null;
+}
+
+interface DrawdownTooltipProps {
+    active?: boolean;
+    payload?: { value: number }[];
+    label?: string;
+}
+
+function DrawdownTooltip({ active, payload, label }: DrawdownTooltipProps) {
+    if (active && payload && payload.length && label) {
+        return (
+            <div className="bg-white/90 dark:bg-black/90 p-3 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-sm">
+                <p className="font-semibold mb-1">{new Date(label).toLocaleDateString()}</p>
+                <p className="text-red-600 font-mono">
+                    Drawdown: {(payload[0].value * 100).toFixed(1)}%
+                </p>
+            </div>
+        );
+    }
+    return null;
+}
+
+export function PerformanceChartTabs({
+    portfolioData,
+    rollingMetrics,
+    rollingWindow,
+    rollingStep,
+    onRollingWindowChange,
+    onRollingStepChange,
+    rollingBenchmarkName,
+    holdings = [],
+    targetWeights = {},
+    targetHistory = [],
+    rebalanceDates = [],
+    benchmarkOverlays = [],
+    underwater = [],
+    className
+}: PerformanceChartTabsProps) {
+    const [rollingMetricKey, setRollingMetricKey] = useState<RollingMetricKey>('sharpeRatio');
+
     // Format dates for axis
     const formatDate = (dateStr: string) => {
         const date = new Date(dateStr);
@@ -42,11 +201,25 @@ export function PerformanceChartTabs({ portfolioData, rollingMetrics, className
         return `${(val * 100).toFixed(0)}%`;
     };
 
-    // Format Sharpe ratio for axis
-    const formatSharpe = (val: number) => {
+    // Format Sharpe/Sortino/beta style ratios for axis
+    const formatRatio = (val: number) => {
         return val.toFixed(1);
     };
 
+    // Portfolio values with each benchmark overlay merged in by date
+    const growthData = benchmarkOverlays.length === 0 ? portfolioData : (() => {
+        const overlayByDate = benchmarkOverlays.map(overlay =>
+            new Map(overlay.values.map(point => [point.date, point.value]))
+        );
+        return portfolioData.map(point => {
+            const merged: { [key: string]: number | string | null } = { ...point };
+            benchmarkOverlays.forEach((overlay, index) => {
+                merged[overlay.ticker] = overlayByDate[index].get(point.date) ?? null;
+            });
+            return merged;
+        });
+    })();
+
     const PortfolioTooltip = ({ active, payload, label }: any) => {
         if (active && payload && payload.length) {
             return (
@@ -55,41 +228,48 @@ export function PerformanceChartTabs({ portfolioData, rollingMetrics, className
                     <p className="text-green-600 font-mono">
                         ${payload[0].value.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                     </p>
+                    {(payload.slice(1) as BenchmarkTooltipEntry[]).map(entry => entry.value !== null && (
+                        <p key={entry.dataKey} className="font-mono text-xs" style={{ color: entry.color }}>
+                            {entry.name}: ${entry.value.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        </p>
+                    ))}
                 </div>
             );
         }
         return null;
     };
 
-    const SharpeTooltip = ({ active, payload, label }: any) => {
-        if (active && payload && payload.length && payload[0].value !== null) {
-            return (
-                <div className="bg-white/90 dark:bg-black/90 p-3 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-sm">
-                    <p className="font-semibold mb-1">{new Date(label).toLocaleDateString(undefined, { year: 'numeric', month: 'short' })}</p>
-                    <p className="text-blue-600 font-mono">
-                        Sharpe: {payload[0].value.toFixed(2)}
-                    </p>
-                </div>
-            );
-        }
-        return null;
-    };
+    const allocationTickers = holdings.length > 0
+        ? Object.keys(holdings[0].weights).filter(ticker => holdings.some(day => day.weights[ticker] > 0))
+        : [];
+    const hasPendingCash = holdings.some(day => day.cash > 0);
 
-    const VolatilityTooltip = ({ active, payload, label }: any) => {
-        if (active && payload && payload.length && payload[0].value !== null) {
-            return (
-                <div className="bg-white/90 dark:bg-black/90 p-3 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-sm">
-                    <p className="font-semibold mb-1">{new Date(label).toLocaleDateString(undefined, { year: 'numeric', month: 'short' })}</p>
-                    <p className="text-orange-600 font-mono">
-                        Volatility: {(payload[0].value * 100).toFixed(1)}%
-                    </p>
-                </div>
-            );
+    // Weights as percentages per day; cash held for unlisted assets is whatever the holdings don't cover
+    const allocationData = holdings.map(day => {
+        const point: { [key: string]: number | string } = { date: day.date };
+        let invested = 0;
+        allocationTickers.forEach(ticker => {
+            point[ticker] = (day.weights[ticker] || 0) * 100;
+            invested += day.weights[ticker] || 0;
+        });
+        if (hasPendingCash) {
+            point[PENDING_CASH_KEY] = day.cash > 0 ? Math.max(0, 1 - invested) * 100 : 0;
         }
-        return null;
-    };
+        return point;
+    });
+
+    const getAssetColor = (ticker: string, index: number) =>
+        ticker === PENDING_CASH_KEY
+            ? '#d4d4d8'
+            : getAssetByTicker(ticker)?.chartColor ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length];
 
+    const rollingMetricOptions = ROLLING_METRICS.filter(metric => !metric.needsBenchmark || rollingBenchmarkName);
+    const rollingMetric = rollingMetricOptions.find(metric => metric.key === rollingMetricKey) ?? rollingMetricOptions[1];
     const hasRollingData = rollingMetrics.length > 0;
+    // Rolling needs more than the shortest window; longer windows just show a hint when the range is too short
+    const canShowRolling = portfolioData.length > Math.min(...ROLLING_WINDOW_OPTIONS);
+    const hasAllocationData = allocationData.length > 0;
+    const showRebalanceMarkers = rebalanceDates.length <= MAX_REBALANCE_MARKERS;
 
     return (
         <Card className={cn("w-full h-[400px] border-0 shadow-sm", className)}>
@@ -101,11 +281,14 @@ export function PerformanceChartTabs({ portfolioData, rollingMetrics, className
                             <TabsTrigger value="growth" className="text-xs px-3">
                                 Portfolio Growth
                             </TabsTrigger>
-                            <TabsTrigger value="sharpe" className="text-xs px-3" disabled={!hasRollingData}>
-                                Rolling Sharpe
+                            <TabsTrigger value="rolling" className="text-xs px-3" disabled={!canShowRolling}>
+                                Rolling Metrics
                             </TabsTrigger>
-                            <TabsTrigger value="volatility" className="text-xs px-3" disabled={!hasRollingData}>
-                                Rolling Volatility
+                            <TabsTrigger value="drawdown" className="text-xs px-3" disabled={underwater.length === 0}>
+                                Drawdown
+                            </TabsTrigger>
+                            <TabsTrigger value="allocation" className="text-xs px-3" disabled={!hasAllocationData}>
+                                Allocation Over Time
                             </TabsTrigger>
                         </TabsList>
                     </div>
@@ -118,7 +301,7 @@ export function PerformanceChartTabs({ portfolioData, rollingMetrics, className
                             </div>
                         ) : (
                             <ResponsiveContainer width="100%" height="100%">
-                                <AreaChart data={portfolioData}>
+                                <ComposedChart data={growthData}>
                                     <defs>
                                         <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
                                             <stop offset="5%" stopColor="#22c55e" stopOpacity={0.2} />
@@ -145,28 +328,142 @@ export function PerformanceChartTabs({ portfolioData, rollingMetrics, className
                                     <Area
                                         type="monotone"
                                         dataKey="value"
+                                        name="Portfolio"
                                         stroke="#16a34a"
                                         strokeWidth={2}
                                         fillOpacity={1}
                                         fill="url(#colorValue)"
                                     />
-                                </AreaChart>
+                                    {benchmarkOverlays.map(overlay => (
+                                        <Line
+                                            key={overlay.ticker}
+                                            type="monotone"
+                                            dataKey={overlay.ticker}
+                                            name={overlay.name}
+                                            stroke={overlay.color}
+                                            strokeWidth={1.5}
+                                            strokeDasharray="4 2"
+                                            dot={false}
+                                            connectNulls
+                                        />
+                                    ))}
+                                </ComposedChart>
                             </ResponsiveContainer>
                         )}
+                        {benchmarkOverlays.length > 0 && (
+                            <p className="text-xs text-muted-foreground text-center mt-1">
+                                Dashed: {benchmarkOverlays.map(overlay => overlay.name).join(', ')} (rebased to the initial investment)
+                            </p>
+                        )}
+                    </TabsContent>
+
+                    <TabsContent value="rolling" className="h-[300px] mt-0 flex flex-col">
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                            <Select value={rollingMetric.key} onValueChange={(value) => setRollingMetricKey(value as RollingMetricKey)}>
+                                <SelectTrigger className="w-[140px] h-7 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {rollingMetricOptions.map(metric => (
+                                        <SelectItem key={metric.key} value={metric.key} className="text-xs">
+                                            {metric.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <div className="flex gap-1">
+                                {ROLLING_WINDOW_OPTIONS.map(days => (
+                                    <Button
+                                        key={days}
+                                        type="button"
+                                        variant={rollingWindow === days ? 'default' : 'outline'}
+                                        size="sm"
+                                        onClick={() => onRollingWindowChange(days)}
+                                        className="text-xs h-7 px-2"
+                                    >
+                                        {formatWindow(days)}
+                                    </Button>
+                                ))}
+                            </div>
+                            <Select value={String(rollingStep)} onValueChange={(value) => onRollingStepChange(Number(value))}>
+                                <SelectTrigger className="w-[100px] h-7 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {ROLLING_STEP_OPTIONS.map(option => (
+                                        <SelectItem key={option.days} value={String(option.days)} className="text-xs">
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex-1 min-h-0">
+                            {!hasRollingData ? (
+                                <div className="h-full w-full flex items-center justify-center text-muted-foreground text-sm">
+                                    Need more than {rollingWindow} days of data for a {formatWindow(rollingWindow)} window. Pick a shorter window.
+                                </div>
+                            ) : (
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={rollingMetrics}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e5e5" />
+                                        <XAxis
+                                            dataKey="date"
+                                            tickFormatter={formatDate}
+                                            minTickGap={50}
+                                            tick={{ fontSize: 12, fill: '#888' }}
+                                            axisLine={false}
+                                            tickLine={false}
+                                        />
+                                        <YAxis
+                                            tickFormatter={rollingMetric.isPercent ? formatPercent : formatRatio}
+                                            tick={{ fontSize: 12, fill: '#888' }}
+                                            axisLine={false}
+                                            tickLine={false}
+                                            width={50}
+                                            domain={['auto', 'auto']}
+                                        />
+                                        <Tooltip
+                                            content={
+                                                <RollingTooltip
+                                                    metricLabel={rollingMetric.label}
+                                                    color={rollingMetric.color}
+                                                    isPercent={rollingMetric.isPercent}
+                                                />
+                                            }
+                                        />
+                                        <ReferenceLine y={0} stroke="#9ca3af" strokeDasharray="3 3" />
+                                        <Line
+                                            type="monotone"
+                                            dataKey={rollingMetric.key}
+                                            stroke={rollingMetric.color}
+                                            strokeWidth={2}
+                                            dot={false}
+                                            connectNulls
+                                        />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            )}
+                        </div>
+                        <p className="text-xs text-muted-foreground text-center mt-1">
+                            {formatWindow(rollingWindow)} Rolling {rollingMetric.label}
+                            {rollingMetric.key === 'sharpeRatio' || rollingMetric.key === 'sortinoRatio' ? ' (3% risk-free rate)' : ''}
+                            {rollingMetric.needsBenchmark ? ` vs ${rollingBenchmarkName}` : ''}
+                        </p>
                     </TabsContent>
 
-                    <TabsContent value="sharpe" className="h-[300px] mt-0">
-                        {!hasRollingData ? (
+                    <TabsContent value="drawdown" className="h-[300px] mt-0">
+                        {underwater.length === 0 ? (
                             <div className="h-full w-full flex items-center justify-center text-muted-foreground">
-                                Need at least 12 months of data for rolling metrics
+                                Loading data...
                             </div>
                         ) : (
                             <ResponsiveContainer width="100%" height="100%">
-                                <LineChart data={rollingMetrics}>
+                                <AreaChart data={underwater}>
                                     <defs>
-                                        <linearGradient id="colorSharpe" x1="0" y1="0" x2="0" y2="1">
-                                            <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.2} />
-                                            <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+                                        <linearGradient id="colorDrawdown" x1="0" y1="0" x2="0" y2="1">
+                                            <stop offset="5%" stopColor="#ef4444" stopOpacity={0} />
+                                            <stop offset="95%" stopColor="#ef4444" stopOpacity={0.3} />
                                         </linearGradient>
                                     </defs>
                                     <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e5e5" />
@@ -179,45 +476,38 @@ export function PerformanceChartTabs({ portfolioData, rollingMetrics, className
                                         tickLine={false}
                                     />
                                     <YAxis
-                                        tickFormatter={formatSharpe}
+                                        tickFormatter={formatPercent}
                                         tick={{ fontSize: 12, fill: '#888' }}
                                         axisLine={false}
                                         tickLine={false}
-                                        width={40}
-                                        domain={['auto', 'auto']}
+                                        width={50}
+                                        domain={['auto', 0]}
                                     />
-                                    <Tooltip content={<SharpeTooltip />} />
-                                    <ReferenceLine y={0} stroke="#9ca3af" strokeDasharray="3 3" />
-                                    <Line
+                                    <Tooltip content={<DrawdownTooltip />} />
+                                    <Area
                                         type="monotone"
-                                        dataKey="sharpeRatio"
-                                        stroke="#3b82f6"
-                                        strokeWidth={2}
-                                        dot={false}
-                                        connectNulls
+                                        dataKey="drawdown"
+                                        stroke="#ef4444"
+                                        strokeWidth={1.5}
+                                        fillOpacity={1}
+                                        fill="url(#colorDrawdown)"
                                     />
-                                </LineChart>
+                                </AreaChart>
                             </ResponsiveContainer>
                         )}
                         <p className="text-xs text-muted-foreground text-center mt-1">
-                            1-Year Rolling Sharpe Ratio (3% risk-free rate)
+                            Underwater Curve (distance below the previous peak)
                         </p>
                     </TabsContent>
 
-                    <TabsContent value="volatility" className="h-[300px] mt-0">
-                        {!hasRollingData ? (
+                    <TabsContent value="allocation" className="h-[300px] mt-0">
+                        {!hasAllocationData ? (
                             <div className="h-full w-full flex items-center justify-center text-muted-foreground">
-                                Need at least 12 months of data for rolling metrics
+                                Loading data...
                             </div>
                         ) : (
                             <ResponsiveContainer width="100%" height="100%">
-                                <AreaChart data={rollingMetrics}>
-                                    <defs>
-                                        <linearGradient id="colorVolatility" x1="0" y1="0" x2="0" y2="1">
-                                            <stop offset="5%" stopColor="#f97316" stopOpacity={0.2} />
-                                            <stop offset="95%" stopColor="#f97316" stopOpacity={0} />
-                                        </linearGradient>
-                                    </defs>
+                                <AreaChart data={allocationData} stackOffset="expand">
                                     <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e5e5" />
                                     <XAxis
                                         dataKey="date"
@@ -233,22 +523,38 @@ export function PerformanceChartTabs({ portfolioData, rollingMetrics, className
                                         axisLine={false}
                                         tickLine={false}
                                         width={50}
-                                        domain={[0, 'auto']}
-                                    />
-                                    <Tooltip content={<VolatilityTooltip />} />
-                                    <Area
-                                        type="monotone"
-                                        dataKey="volatility"
-                                        stroke="#f97316"
-                                        strokeWidth={2}
-                                        fillOpacity={1}
-                                        fill="url(#colorVolatility)"
                                     />
+                                    <Tooltip content={<AllocationTooltip targetWeights={targetWeights} targetHistory={targetHistory} />} />
+                                    {[...allocationTickers, ...(hasPendingCash ? [PENDING_CASH_KEY] : [])].map((ticker, index) => (
+                                        <Area
+                                            key={ticker}
+                                            type="monotone"
+                                            dataKey={ticker}
+                                            stackId="allocation"
+                                            stroke={getAssetColor(ticker, index)}
+                                            fill={getAssetColor(ticker, index)}
+                                            fillOpacity={0.7}
+                                            strokeWidth={1}
+                                            isAnimationActive={false}
+                                        />
+                                    ))}
+                                    {showRebalanceMarkers && rebalanceDates.map(date => (
+                                        <ReferenceLine
+                                            key={date}
+                                            x={date}
+                                            stroke="#71717a"
+                                            strokeDasharray="3 3"
+                                        />
+                                    ))}
                                 </AreaChart>
                             </ResponsiveContainer>
                         )}
                         <p className="text-xs text-muted-foreground text-center mt-1">
-                            1-Year Rolling Annualized Volatility
+                            {rebalanceDates.length === 0
+                                ? 'Asset weights over time (no rebalances)'
+                                : showRebalanceMarkers
+                                    ? `Asset weights over time; dashed lines mark ${rebalanceDates.length} rebalance${rebalanceDates.length === 1 ? '' : 's'}`
+                                    : `Asset weights over time (${rebalanceDates.length} rebalances, too many to mark)`}
                         </p>
                     </TabsContent>
                 </CardContent>
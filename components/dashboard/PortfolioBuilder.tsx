@@ -1,21 +1,42 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { AssetAllocator } from "./AssetAllocator";
 import { AssetSearch } from "./AssetSearch";
 import { PortfolioManager } from "./PortfolioManager";
 import { PerformanceChartTabs } from "./PerformanceChartTabs";
 import { AssetWarningBanner } from "./AssetWarningBanner";
 import { MonthlyPerformance } from "./MonthlyPerformance";
-import { calculateMetrics, calculatePortfolioHistory, calculateRollingMetrics, DailyData, validateAssetsForDateRange } from "@/lib/finance";
+import { TradeLedger } from "./TradeLedger";
+import { ValueAtRisk } from "./ValueAtRisk";
+import { DrawdownEpisodes } from "./DrawdownEpisodes";
+import { MonteCarloProjection } from "./MonteCarloProjection";
+import { BenchmarkAnalytics } from "./BenchmarkAnalytics";
+import { CorrelationHeatmap } from "./CorrelationHeatmap";
+import { ReturnAttribution } from "./ReturnAttribution";
+import { PortfolioOptimizer } from "./PortfolioOptimizer";
+import { ANNUAL_RISK_FREE_RATE, calculateBenchmarkMetrics, calculateCorrelationMatrix, calculateDrawdownAnalysis, calculateMetrics, calculatePortfolioHistory, calculateRollingMetrics, calculateTimeWeightedValues, DailyData, DEFAULT_CASH_FLOW_SCHEDULE, DEFAULT_CASH_YIELD, DEFAULT_PRE_LISTING_POLICY, DEFAULT_REBALANCE_ANCHOR, DEFAULT_REBALANCE_BANDS, DEFAULT_ROLLING_STEP, DEFAULT_ROLLING_WINDOW, DEFAULT_TRANSACTION_COSTS, getAnnualCashYield, validateAssetsForDateRange } from "@/lib/finance";
+import type { PortfolioHistory } from "@/lib/finance";
+import { calculateRiskReport } from "@/lib/risk";
+import { calculateAttribution } from "@/lib/attribution";
+import { createWeightingFunction, DEFAULT_WEIGHTING_LOOKBACK, WEIGHTING_LOOKBACK_OPTIONS } from "@/lib/weighting";
+import { calculateEfficientFrontier, evaluateWeights, roundWeightsToPercent, validateWeightBounds } from "@/lib/optimizer";
+import type { OptimizationObjective, OptimizedPortfolio } from "@/lib/optimizer";
+import { DEFAULT_PROJECTION_PATHS, DEFAULT_PROJECTION_YEARS, projectPortfolioInBatches } from "@/lib/projection";
+import type { PortfolioProjection, ProjectionMethod } from "@/lib/projection";
 import { PortfolioConfig } from "@/lib/types";
-import type { AssetValidation, RebalanceFrequency } from "@/lib/types";
+import type { AssetValidation, CashFlowSchedule, CashYield, PreListingPolicy, RebalanceAnchor, RebalanceBands, RebalanceFrequency, ReturnFrequency, SymbolReport, TransactionCosts, WeightingScheme } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, TrendingDown, DollarSign, Activity, AlertTriangle, Zap, Download, FileText, FileSpreadsheet } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TrendingUp, TrendingDown, DollarSign, Activity, AlertTriangle, Zap, Download, FileText, FileSpreadsheet, RefreshCw } from "lucide-react";
 import { exportToCSV, exportToPDF } from "@/lib/export";
+import { getSavedPortfolios } from "@/lib/portfolio-storage";
+import { DEFAULT_BENCHMARKS, getBenchmarkByTicker } from "@/lib/benchmarks";
+import { getAssetByTicker, isCashAsset } from "@/lib/crypto-assets";
+import { hasDataQualityIssues } from "@/lib/data-quality";
 
 // Predefined portfolio presets
 const PORTFOLIO_PRESETS: Array<{
@@ -52,14 +73,58 @@ const PORTFOLIO_PRESETS: Array<{
     },
 ];
 
+const REBALANCE_OPTIONS: Array<{
+    value: RebalanceFrequency;
+    label: string;
+    description: string;
+}> = [
+    { value: 'none', label: 'None', description: 'No rebalancing - weights drift over time' },
+    { value: 'daily', label: 'Daily', description: 'Rebalances to target weights every day' },
+    { value: 'weekly', label: 'Weekly', description: 'Rebalances to target weights every week' },
+    { value: 'biweekly', label: 'Bi-weekly', description: 'Rebalances to target weights every two weeks' },
+    { value: 'monthly', label: 'Monthly', description: 'Rebalances to target weights every month' },
+    { value: 'quarterly', label: 'Quarterly', description: 'Rebalances to target weights every quarter' },
+    { value: 'semiannually', label: 'Semi-annual', description: 'Rebalances to target weights every six months' },
+    { value: 'annually', label: 'Annually', description: 'Rebalances to target weights every year' },
+    { value: 'threshold', label: 'Threshold', description: 'Rebalances whenever any asset drifts outside its band (0 disables a band)' },
+];
+
+const PRE_LISTING_OPTIONS: Array<{
+    value: PreListingPolicy;
+    label: string;
+    description: string;
+}> = [
+    { value: 'cash', label: 'Hold Cash', description: 'Unlisted sleeves wait in cash and buy in on the listing date' },
+    { value: 'redistribute', label: 'Redistribute', description: 'Unlisted sleeves go pro-rata to listed assets, then rebalance in at listing' },
+    { value: 'start-at-listing', label: 'Start at Listing', description: 'Backtest starts once every selected asset is trading' },
+];
+
+const WEIGHTING_OPTIONS: Array<{
+    value: WeightingScheme;
+    label: string;
+    description: string;
+}> = [
+    { value: 'manual', label: 'Manual', description: 'Targets are the weights set below' },
+    { value: 'equal', label: 'Equal', description: 'Every listed asset gets the same target weight' },
+    { value: 'inverse-volatility', label: 'Inverse Vol', description: 'Targets proportional to 1 / volatility over the lookback' },
+    { value: 'risk-parity', label: 'Risk Parity', description: 'Targets that give every asset an equal share of portfolio risk over the lookback' },
+    { value: 'market-cap', label: 'Market Cap', description: 'Targets proportional to market cap, proxied by 1 / market cap rank' },
+];
+
 export function PortfolioBuilder() {
     const [marketData, setMarketData] = useState<DailyData[]>([]);
+    const [weightingHistory, setWeightingHistory] = useState<DailyData[]>([]); // Prices before the start date
     const [loading, setLoading] = useState(true);
+    const [refreshCount, setRefreshCount] = useState(0);
+    const [dataIsStale, setDataIsStale] = useState(false);
+    // Set by "Refresh Data" ('1') or a per-asset retry (tickers) so the next fetch bypasses the server cache
+    const forceRefreshRef = useRef<string | null>(null);
     const [initialInvestment, setInitialInvestment] = useState(10000);
     const [startDate, setStartDate] = useState('2020-01-01');
     const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
     const [dateError, setDateError] = useState('');
     const [assetValidation, setAssetValidation] = useState<AssetValidation | null>(null);
+    const [symbolReports, setSymbolReports] = useState<{ [ticker: string]: SymbolReport }>({});
     const [showWarning, setShowWarning] = useState(true);
     const [selectedAssets, setSelectedAssets] = useState<string[]>([
         'BTC-USD', 'ETH-USD', 'SOL-USD'
@@ -70,6 +135,41 @@ export function PortfolioBuilder() {
         "SOL-USD": 25,
     });
     const [rebalanceFrequency, setRebalanceFrequency] = useState<RebalanceFrequency>('none');
+    const [rebalanceBands, setRebalanceBands] = useState<RebalanceBands>(DEFAULT_REBALANCE_BANDS);
+    const [useHybridBands, setUseHybridBands] = useState(false);
+    const [rebalanceAnchor, setRebalanceAnchor] = useState<RebalanceAnchor>(DEFAULT_REBALANCE_ANCHOR);
+    const [transactionCosts, setTransactionCosts] = useState<TransactionCosts>(DEFAULT_TRANSACTION_COSTS);
+    const [cashFlowSchedule, setCashFlowSchedule] = useState<CashFlowSchedule>(DEFAULT_CASH_FLOW_SCHEDULE);
+    const [preListingPolicy, setPreListingPolicy] = useState<PreListingPolicy>(DEFAULT_PRE_LISTING_POLICY);
+    const [cashYield, setCashYield] = useState<CashYield>(DEFAULT_CASH_YIELD);
+    const [compoundStakingYield, setCompoundStakingYield] = useState(false);
+    const [weightingScheme, setWeightingScheme] = useState<WeightingScheme>('manual');
+    const [weightingLookback, setWeightingLookback] = useState(DEFAULT_WEIGHTING_LOOKBACK);
+    const [selectedBenchmarks, setSelectedBenchmarks] = useState<string[]>(DEFAULT_BENCHMARKS);
+    const [savedBenchmarkId, setSavedBenchmarkId] = useState('');
+    const [savedPortfolios, setSavedPortfolios] = useState<PortfolioConfig[]>([]);
+    const [rollingWindow, setRollingWindow] = useState(DEFAULT_ROLLING_WINDOW);
+    const [rollingStep, setRollingStep] = useState(DEFAULT_ROLLING_STEP);
+    const [correlationFrequency, setCorrelationFrequency] = useState<ReturnFrequency>('daily');
+    const [correlationWindow, setCorrelationWindow] = useState<number | null>(null);
+    const [optimizerObjective, setOptimizerObjective] = useState<OptimizationObjective>('max-sharpe');
+    const [optimizerTargetReturn, setOptimizerTargetReturn] = useState(50);
+    const [projectionMethod, setProjectionMethod] = useState<ProjectionMethod>('bootstrap');
+    const [projectionYears, setProjectionYears] = useState(DEFAULT_PROJECTION_YEARS);
+    const [projectionPaths, setProjectionPaths] = useState(DEFAULT_PROJECTION_PATHS);
+    const [projectionGoal, setProjectionGoal] = useState<number | null>(null);
+    const [projectionLossPercent, setProjectionLossPercent] = useState(20);
+    const [projectionRunning, setProjectionRunning] = useState(false);
+    const [projectionProgress, setProjectionProgress] = useState(0); // Share of paths simulated so far
+    // Last projection, with the inputs it was run on so the card can tell when it's out of date
+    const [projectionRun, setProjectionRun] = useState<{
+        projection: PortfolioProjection | null;
+        history: PortfolioHistory;
+        method: ProjectionMethod;
+        years: number;
+        paths: number;
+    } | null>(null);
+    const [optimizerBounds, setOptimizerBounds] = useState<{ [ticker: string]: { min: number; max: number } }>({});
     const [exportingPDF, setExportingPDF] = useState(false);
     const [exportingCSV, setExportingCSV] = useState(false);
 
@@ -130,6 +230,19 @@ export function PortfolioBuilder() {
         setEndDate(end);
     };
 
+    const savedBenchmark = savedPortfolios.find(config => config.id === savedBenchmarkId);
+
+    // Assets a saved-portfolio benchmark needs that the portfolio itself doesn't fetch
+    const benchmarkAssets = (savedBenchmark?.selectedAssets ?? [])
+        .filter(ticker => !isCashAsset(ticker) && !selectedAssets.includes(ticker));
+    const benchmarkAssetsKey = benchmarkAssets.sort().join(',');
+    const benchmarksKey = selectedBenchmarks.join(',');
+
+    // Volatility-based weighting (this portfolio's or the saved benchmark's) looks back from the start date
+    const needsWeightingHistory = [weightingScheme, savedBenchmark?.weightingScheme].some(scheme =>
+        scheme === 'inverse-volatility' || scheme === 'risk-parity'
+    );
+
     useEffect(() => {
         async function fetchData() {
             const error = validateDates(startDate, endDate);
@@ -141,27 +254,30 @@ export function PortfolioBuilder() {
             setDateError('');
 
             try {
-                const assetsParam = selectedAssets.join(',');
+                // Cash sleeves are priced locally and need no market data
+                const assetsParam = [
+                    ...selectedAssets.filter(ticker => !isCashAsset(ticker)),
+                    ...(benchmarkAssetsKey ? benchmarkAssetsKey.split(',') : [])
+                ].join(',');
+                const refreshParam = forceRefreshRef.current ? `&refresh=${encodeURIComponent(forceRefreshRef.current)}` : '';
+                forceRefreshRef.current = null;
                 const res = await fetch(
-                    `/api/market-data?startDate=${startDate}&endDate=${endDate}&assets=${assetsParam}`
+                    `/api/market-data?startDate=${startDate}&endDate=${endDate}&assets=${assetsParam}&benchmarks=${encodeURIComponent(benchmarksKey)}${refreshParam}`
                 );
                 if (!res.ok) throw new Error('Failed to fetch data');
-                const data = await res.json();
+                const { data, symbols }: { data: DailyData[]; symbols?: { [ticker: string]: SymbolReport } } = await res.json();
                 setMarketData(data);
+                setSymbolReports(symbols ?? {});
+                setDataIsStale(res.headers.get('X-Cache-Status') === 'stale');
 
-                // Validate assets for date range
+                // Validate assets for date range; unlisted assets keep their weights and are
+                // handled by the pre-listing policy in the simulation
                 const validation = validateAssetsForDateRange(data, weights);
                 setAssetValidation(validation);
-
-                // Filter weights to only include valid assets
-                if (!validation.valid) {
-                    const filteredWeights: { [ticker: string]: number } = {};
-                    validation.validAssets.forEach(ticker => {
-                        if (weights[ticker]) {
-                            filteredWeights[ticker] = weights[ticker];
-                        }
-                    });
-                    setWeights(filteredWeights);
+                const reports = Object.values(symbols ?? {});
+                if (!validation.valid || reports.some(report =>
+                    report.status !== 'ok' || (report.quality && hasDataQualityIssues(report.quality))
+                )) {
                     setShowWarning(true);
                 }
             } catch (error) {
@@ -171,12 +287,69 @@ export function PortfolioBuilder() {
             }
         }
         fetchData();
-    }, [selectedAssets, startDate, endDate]);
+    }, [selectedAssets, startDate, endDate, benchmarkAssetsKey, benchmarksKey, refreshCount]);
+
+    const handleRefreshData = () => {
+        forceRefreshRef.current = '1';
+        setLoading(true);
+        setRefreshCount(prev => prev + 1);
+    };
+
+    // Refetch one ticker from upstream; every other ticker is served from the cache
+    const handleRetryAsset = (ticker: string) => {
+        forceRefreshRef.current = ticker;
+        setLoading(true);
+        setRefreshCount(prev => prev + 1);
+    };
+
+    // Fetch the longest lookback's worth of prices before the start date, so a volatility-based
+    // weighting scheme has a full lookback from day 0 instead of starting out equal-weighted
+    useEffect(() => {
+        if (!needsWeightingHistory || validateDates(startDate, endDate)) return;
+        async function fetchWeightingHistory() {
+            const dayMs = 24 * 3600 * 1000;
+            const startTime = new Date(startDate).getTime();
+            const historyStart = new Date(startTime - Math.max(...WEIGHTING_LOOKBACK_OPTIONS) * dayMs).toISOString().split('T')[0];
+            const historyEnd = new Date(startTime - dayMs).toISOString().split('T')[0];
+            try {
+                const assetsParam = [
+                    ...selectedAssets.filter(ticker => !isCashAsset(ticker)),
+                    ...(benchmarkAssetsKey ? benchmarkAssetsKey.split(',') : [])
+                ].join(',');
+                const res = await fetch(
+                    `/api/market-data?startDate=${historyStart}&endDate=${historyEnd}&assets=${assetsParam}&benchmarks=`
+                );
+                if (!res.ok) throw new Error('Failed to fetch weighting history');
+                const { data }: { data: DailyData[] } = await res.json();
+                setWeightingHistory(data);
+            } catch (error) {
+                console.error(error);
+            }
+        }
+        fetchWeightingHistory();
+    }, [needsWeightingHistory, selectedAssets, startDate, endDate, benchmarkAssetsKey]);
+
+    // A fetch for an earlier start date may still be in place, so only days before this start count
+    const preStartHistory = useMemo(
+        () => weightingHistory.filter(day => day.date < startDate),
+        [weightingHistory, startDate]
+    );
 
     const handleWeightChange = (ticker: string, newValue: number) => {
         setWeights(prev => ({ ...prev, [ticker]: newValue }));
     };
 
+    // Optimizer weights are fractions; the allocator takes whole percentages summing to 100
+    const handleApplyOptimalWeights = (portfolio: OptimizedPortfolio) => {
+        Object.entries(roundWeightsToPercent(portfolio.weights)).forEach(([ticker, weight]) => {
+            handleWeightChange(ticker, weight);
+        });
+    };
+
+    const handleOptimizerBoundsChange = (ticker: string, bounds: { min: number; max: number }) => {
+        setOptimizerBounds(prev => ({ ...prev, [ticker]: bounds }));
+    };
+
     const handleAddAsset = (ticker: string) => {
         if (!selectedAssets.includes(ticker)) {
             setSelectedAssets(prev => [...prev, ticker]);
@@ -201,6 +374,43 @@ export function PortfolioBuilder() {
         if (config.startDate) setStartDate(config.startDate);
         if (config.endDate) setEndDate(config.endDate);
         if (config.rebalanceFrequency) setRebalanceFrequency(config.rebalanceFrequency);
+        setRebalanceBands(config.rebalanceBands ?? DEFAULT_REBALANCE_BANDS);
+        setUseHybridBands(!!config.rebalanceBands && config.rebalanceFrequency !== 'threshold');
+        setRebalanceAnchor(config.rebalanceAnchor ?? DEFAULT_REBALANCE_ANCHOR);
+        setTransactionCosts(config.transactionCosts ?? DEFAULT_TRANSACTION_COSTS);
+        setCashFlowSchedule(config.cashFlowSchedule ?? DEFAULT_CASH_FLOW_SCHEDULE);
+        setPreListingPolicy(config.preListingPolicy ?? DEFAULT_PRE_LISTING_POLICY);
+        setCashYield(config.cashYield ?? DEFAULT_CASH_YIELD);
+        setCompoundStakingYield(config.compoundStakingYield ?? false);
+        setWeightingScheme(config.weightingScheme ?? 'manual');
+        setWeightingLookback(config.weightingLookbackDays ?? DEFAULT_WEIGHTING_LOOKBACK);
+        setSelectedBenchmarks(config.benchmarks ?? DEFAULT_BENCHMARKS);
+    };
+
+    const handleToggleBenchmark = (ticker: string) => {
+        setSelectedBenchmarks(prev => prev.includes(ticker)
+            ? prev.filter(t => t !== ticker)
+            : [...prev, ticker]);
+    };
+
+    const handleTransactionCostChange = (field: keyof TransactionCosts, value: number) => {
+        setTransactionCosts(prev => ({ ...prev, [field]: Math.max(0, value) }));
+    };
+
+    const handleRebalanceBandChange = (field: keyof RebalanceBands, value: number) => {
+        setRebalanceBands(prev => ({ ...prev, [field]: Math.max(0, value) }));
+    };
+
+    const handleCashFlowChange = (updates: Partial<CashFlowSchedule>) => {
+        setCashFlowSchedule(prev => ({ ...prev, ...updates }));
+    };
+
+    const handleCustomDatesChange = (value: string) => {
+        const customDates = value
+            .split(',')
+            .map(d => d.trim())
+            .filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d));
+        handleCashFlowChange({ customDates });
     };
 
     const handleLoadPreset = (presetId: string) => {
@@ -212,6 +422,8 @@ export function PortfolioBuilder() {
         setStartDate(preset.startDate);
         setEndDate(new Date().toISOString().split('T')[0]);
         setRebalanceFrequency('none');
+        setUseHybridBands(false);
+        setWeightingScheme('manual');
         setLoading(true);
     };
 
@@ -228,7 +440,24 @@ export function PortfolioBuilder() {
                 weights,
                 metrics,
                 marketData,
-                rebalanceFrequency
+                rebalanceFrequency,
+                rebalanceBands: activeRebalanceBands,
+                rebalanceAnchor,
+                transactionCosts,
+                totalCosts: portfolioHistory.totalCosts,
+                cashFlowSchedule,
+                preListingPolicy,
+                cashYield,
+                compoundStakingYield,
+                weightingScheme,
+                weightingLookbackDays: weightingLookback,
+                ledger: portfolioHistory.ledger,
+                riskReport,
+                drawdownEpisodes: drawdownAnalysis.episodes,
+                correlationMatrix,
+                attribution,
+                benchmarks: selectedBenchmarks,
+                benchmarkComparisons
             };
             exportToCSV(exportData);
         } catch (error) {
@@ -249,35 +478,223 @@ export function PortfolioBuilder() {
         }
     };
 
-    const chartData = useMemo(() => {
-        return calculatePortfolioHistory(marketData, weights, initialInvestment, rebalanceFrequency);
-    }, [marketData, weights, initialInvestment, rebalanceFrequency]);
+    const isCalendarRebalance = rebalanceFrequency !== 'none' && rebalanceFrequency !== 'threshold';
 
-    const metrics = useMemo(() => {
-        // Extract S&P 500 data if available - check if any day has S&P 500 data
-        const hasSp500Data = marketData.length > 0 && marketData.some(day => {
-            const val = day['^GSPC'] as number;
-            return val && val > 0;
+    // Bands drive threshold mode, and gate calendar rebalances when hybrid mode is on
+    const activeRebalanceBands = rebalanceFrequency === 'threshold' || (useHybridBands && isCalendarRebalance)
+        ? rebalanceBands
+        : undefined;
+
+    const usesWeightingLookback = weightingScheme === 'inverse-volatility' || weightingScheme === 'risk-parity';
+
+    // Shared by the backtest and the Monte Carlo projection
+    const simulationOptions = useMemo(() => ({
+        weighting: createWeightingFunction(weightingScheme, { lookbackDays: weightingLookback }),
+        weightingHistory: usesWeightingLookback ? preStartHistory : undefined,
+        transactionCosts,
+        cashFlowSchedule,
+        rebalanceBands: activeRebalanceBands,
+        rebalanceAnchor,
+        preListingPolicy,
+        cashYield,
+        compoundStakingYield
+    }), [weightingScheme, weightingLookback, usesWeightingLookback, preStartHistory, transactionCosts, cashFlowSchedule, activeRebalanceBands, rebalanceAnchor, preListingPolicy, cashYield, compoundStakingYield]);
+
+    const portfolioHistory = useMemo(() => {
+        return calculatePortfolioHistory(marketData, weights, initialInvestment, rebalanceFrequency, {
+            ...simulationOptions,
+            recordLedger: true
         });
+    }, [marketData, weights, initialInvestment, rebalanceFrequency, simulationOptions]);
+
+    const hasCashSleeve = selectedAssets.some(isCashAsset);
+    const stakeableAssets = selectedAssets.filter(ticker => getAssetByTicker(ticker)?.stakingYield);
 
-        const sp500Data = hasSp500Data
-            ? marketData
+    const chartData = portfolioHistory.values;
+
+    const rebalanceDates = useMemo(() => {
+        const dates = (portfolioHistory.ledger ?? [])
+            .filter(trade => trade.reason === 'rebalance')
+            .map(trade => trade.date);
+        return Array.from(new Set(dates));
+    }, [portfolioHistory.ledger]);
+
+    // Price series of each selected benchmark, skipping days before it has data
+    const benchmarkData = useMemo(() => {
+        const data: { [ticker: string]: { date: string; value: number }[] } = {};
+        selectedBenchmarks.forEach(ticker => {
+            data[ticker] = marketData
                 .filter(day => {
-                    const val = day['^GSPC'] as number;
+                    const val = day[ticker] as number;
                     return val && val > 0;
                 })
                 .map(day => ({
                     date: day.date,
-                    value: day['^GSPC'] as number
-                }))
-            : undefined;
+                    value: day[ticker] as number
+                }));
+        });
+        return data;
+    }, [marketData, selectedBenchmarks]);
 
-        return calculateMetrics(chartData, initialInvestment, sp500Data);
-    }, [chartData, initialInvestment, marketData]);
+    const metrics = useMemo(() => {
+        return calculateMetrics(chartData, initialInvestment, benchmarkData, portfolioHistory.cashFlows);
+    }, [chartData, initialInvestment, benchmarkData, portfolioHistory.cashFlows]);
+
+    // Benchmarks rebased to the same starting capital for the growth chart overlay
+    const benchmarkOverlays = useMemo(() => {
+        const baseValue = initialInvestment > 0
+            ? initialInvestment
+            : chartData.find(point => point.value > 0)?.value ?? 0;
+        return selectedBenchmarks
+            .filter(ticker => benchmarkData[ticker]?.length > 0)
+            .map(ticker => {
+                const series = benchmarkData[ticker];
+                const firstValue = series[0].value;
+                return {
+                    ticker,
+                    name: getBenchmarkByTicker(ticker)?.name ?? ticker,
+                    color: getBenchmarkByTicker(ticker)?.chartColor ?? '#6b7280',
+                    values: series.map(point => ({ date: point.date, value: baseValue * point.value / firstValue }))
+                };
+            });
+    }, [selectedBenchmarks, benchmarkData, initialInvestment, chartData]);
+
+    const riskReport = useMemo(() => {
+        return calculateRiskReport(chartData, metrics.finalBalance, portfolioHistory.cashFlows);
+    }, [chartData, metrics.finalBalance, portfolioHistory.cashFlows]);
+
+    // Volatility is split by today's actual weights, which drift from the targets between rebalances
+    const attribution = useMemo(() => {
+        const holdings = portfolioHistory.holdings ?? [];
+        const latestWeights = holdings.length > 0 ? holdings[holdings.length - 1].weights : {};
+        return calculateAttribution(marketData, holdings, chartData, portfolioHistory.cashFlows, latestWeights);
+    }, [marketData, portfolioHistory.holdings, chartData, portfolioHistory.cashFlows]);
+
+    const drawdownAnalysis = useMemo(() => {
+        return calculateDrawdownAnalysis(chartData, portfolioHistory.cashFlows, 5);
+    }, [chartData, portfolioHistory.cashFlows]);
+
+    // Monte Carlo runs on demand: thousands of paths are too slow to redo on every slider move
+    const handleRunProjection = async () => {
+        setProjectionRunning(true);
+        setProjectionProgress(0);
+        const targetHistory = portfolioHistory.targetHistory ?? [];
+        const currentTargets = targetHistory.length > 0 ? targetHistory[targetHistory.length - 1].weights : weights;
+        const currentValue = chartData.length > 0 ? chartData[chartData.length - 1].value : 0;
+        // Paths run in batches that yield to the browser, so the page stays responsive on long horizons
+        const projection = await projectPortfolioInBatches(marketData, currentTargets, currentValue, rebalanceFrequency, {
+            method: projectionMethod,
+            years: projectionYears,
+            paths: projectionPaths,
+            simulation: simulationOptions
+        }, setProjectionProgress);
+        setProjectionRun({
+            projection,
+            history: portfolioHistory,
+            method: projectionMethod,
+            years: projectionYears,
+            paths: projectionPaths
+        });
+        setProjectionRunning(false);
+    };
+
+    const projectionStale = !!projectionRun && (
+        projectionRun.history !== portfolioHistory ||
+        projectionRun.method !== projectionMethod ||
+        projectionRun.years !== projectionYears ||
+        projectionRun.paths !== projectionPaths
+    );
+
+    const savedBenchmarkMetrics = useMemo(() => {
+        if (!savedBenchmark) return undefined;
+        // Replay the saved strategy on the current date range, without its cash flows
+        const benchmarkValues = calculatePortfolioHistory(
+                marketData,
+                savedBenchmark.weights,
+                initialInvestment,
+                savedBenchmark.rebalanceFrequency ?? 'none',
+                {
+                    weighting: createWeightingFunction(savedBenchmark.weightingScheme ?? 'manual', {
+                        lookbackDays: savedBenchmark.weightingLookbackDays
+                    }),
+                    weightingHistory: preStartHistory,
+                    transactionCosts: savedBenchmark.transactionCosts,
+                    rebalanceBands: savedBenchmark.rebalanceBands,
+                    rebalanceAnchor: savedBenchmark.rebalanceAnchor,
+                    preListingPolicy: savedBenchmark.preListingPolicy,
+                    cashYield: savedBenchmark.cashYield,
+                    compoundStakingYield: savedBenchmark.compoundStakingYield
+                }
+            ).values;
+        return calculateBenchmarkMetrics(chartData, benchmarkValues, portfolioHistory.cashFlows);
+    }, [savedBenchmark, marketData, preStartHistory, initialInvestment, chartData, portfolioHistory.cashFlows]);
+
+    const benchmarkComparisons = [
+        ...selectedBenchmarks.map(ticker => ({
+            name: getBenchmarkByTicker(ticker)?.name ?? ticker,
+            metrics: metrics.benchmarkMetrics?.[ticker]
+        })),
+        ...(savedBenchmark ? [{ name: `Saved: ${savedBenchmark.name}`, metrics: savedBenchmarkMetrics }] : []),
+    ];
+
+    // The first selected benchmark headlines the correlation stat card
+    const primaryBenchmark = selectedBenchmarks[0];
+    const primaryCorrelation = primaryBenchmark ? metrics.benchmarkMetrics?.[primaryBenchmark]?.correlation : undefined;
 
     const rollingMetrics = useMemo(() => {
-        return calculateRollingMetrics(chartData);
-    }, [chartData]);
+        // Rolling stats measure investment performance, so contributions/withdrawals are stripped out
+        // Rolling beta/correlation use the first selected benchmark
+        return calculateRollingMetrics(calculateTimeWeightedValues(chartData, portfolioHistory.cashFlows), ANNUAL_RISK_FREE_RATE, {
+            windowDays: rollingWindow,
+            stepDays: rollingStep,
+            benchmarkValues: primaryBenchmark ? benchmarkData[primaryBenchmark] : undefined
+        });
+    }, [chartData, portfolioHistory.cashFlows, rollingWindow, rollingStep, primaryBenchmark, benchmarkData]);
+
+    // Selected assets (cash has no returns to correlate) plus benchmarks, each ticker once
+    const correlationTickers = useMemo(() => Array.from(new Set([
+        ...selectedAssets.filter(ticker => !isCashAsset(ticker)),
+        ...selectedBenchmarks
+    ])), [selectedAssets, selectedBenchmarks]);
+
+    const correlationMatrix = useMemo(() => {
+        return calculateCorrelationMatrix(marketData, correlationTickers, correlationFrequency, correlationWindow);
+    }, [marketData, correlationTickers, correlationFrequency, correlationWindow]);
+
+    const correlationLabels = useMemo(() => {
+        const labels: { [ticker: string]: string } = {};
+        correlationTickers.forEach(ticker => {
+            labels[ticker] = getAssetByTicker(ticker)?.symbol ?? getBenchmarkByTicker(ticker)?.name ?? ticker;
+        });
+        return labels;
+    }, [correlationTickers]);
+
+    // Optimizer bounds are entered in percent; unset assets may take 0-100%
+    const optimizerBoundFractions = useMemo(() => {
+        const fractions: { [ticker: string]: { min: number; max: number } } = {};
+        selectedAssets.forEach(ticker => {
+            const bounds = optimizerBounds[ticker] ?? { min: 0, max: 100 };
+            fractions[ticker] = { min: bounds.min / 100, max: bounds.max / 100 };
+        });
+        return fractions;
+    }, [selectedAssets, optimizerBounds]);
+
+    const optimizerBoundsError = validateWeightBounds(Object.values(optimizerBoundFractions));
+
+    const efficientFrontier = useMemo(() => {
+        return calculateEfficientFrontier(
+            marketData,
+            selectedAssets,
+            optimizerBoundFractions,
+            ANNUAL_RISK_FREE_RATE,
+            optimizerObjective === 'target-return' ? optimizerTargetReturn / 100 : undefined,
+            getAnnualCashYield(cashYield)
+        );
+    }, [marketData, selectedAssets, optimizerBoundFractions, optimizerObjective, optimizerTargetReturn, cashYield]);
+
+    const currentAllocationPoint = useMemo(() => {
+        return evaluateWeights(marketData, selectedAssets, weights, ANNUAL_RISK_FREE_RATE, getAnnualCashYield(cashYield));
+    }, [marketData, selectedAssets, weights, cashYield]);
 
     if (loading) {
         return (
@@ -489,43 +906,400 @@ export function PortfolioBuilder() {
                             <div className="space-y-2">
                                 <Label>Rebalancing Strategy</Label>
                                 <div className="flex flex-wrap gap-2">
+                                    {REBALANCE_OPTIONS.map(option => (
+                                        <Button
+                                            key={option.value}
+                                            type="button"
+                                            variant={rebalanceFrequency === option.value ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setRebalanceFrequency(option.value)}
+                                            disabled={loading}
+                                            className="text-xs"
+                                        >
+                                            {option.label}
+                                        </Button>
+                                    ))}
+                                </div>
+                                {isCalendarRebalance && rebalanceFrequency !== 'daily' && (
+                                    <div className="space-y-1">
+                                        <Label className="text-xs text-muted-foreground">Rebalance on</Label>
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <Button
+                                                type="button"
+                                                variant={rebalanceAnchor.type === 'first-trading-day' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => setRebalanceAnchor({ type: 'first-trading-day' })}
+                                                disabled={loading}
+                                                className="text-xs"
+                                            >
+                                                First Trading Day
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                variant={rebalanceAnchor.type === 'period-end' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => setRebalanceAnchor({ type: 'period-end' })}
+                                                disabled={loading}
+                                                className="text-xs"
+                                            >
+                                                Period End
+                                            </Button>
+                                            {rebalanceFrequency !== 'weekly' && rebalanceFrequency !== 'biweekly' && (
+                                                <>
+                                                    <Button
+                                                        type="button"
+                                                        variant={rebalanceAnchor.type === 'day-of-month' ? 'default' : 'outline'}
+                                                        size="sm"
+                                                        onClick={() => setRebalanceAnchor({ type: 'day-of-month', dayOfMonth: rebalanceAnchor.dayOfMonth ?? 15 })}
+                                                        disabled={loading}
+                                                        className="text-xs"
+                                                    >
+                                                        Day of Month
+                                                    </Button>
+                                                    {rebalanceAnchor.type === 'day-of-month' && (
+                                                        <Input
+                                                            type="number"
+                                                            value={rebalanceAnchor.dayOfMonth ?? 15}
+                                                            onChange={(e) => setRebalanceAnchor({
+                                                                type: 'day-of-month',
+                                                                dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value)))
+                                                            })}
+                                                            min={1}
+                                                            max={31}
+                                                            className="w-16 h-8 font-mono"
+                                                            aria-label="Day of month"
+                                                        />
+                                                    )}
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                                {isCalendarRebalance && (
                                     <Button
                                         type="button"
-                                        variant={rebalanceFrequency === 'none' ? 'default' : 'outline'}
-                                        size="sm"
-                                        onClick={() => setRebalanceFrequency('none')}
-                                        disabled={loading}
-                                        className="text-xs"
-                                    >
-                                        None
-                                    </Button>
-                                    <Button
-                                        type="button"
-                                        variant={rebalanceFrequency === 'quarterly' ? 'default' : 'outline'}
-                                        size="sm"
-                                        onClick={() => setRebalanceFrequency('quarterly')}
-                                        disabled={loading}
-                                        className="text-xs"
-                                    >
-                                        Quarterly
-                                    </Button>
-                                    <Button
-                                        type="button"
-                                        variant={rebalanceFrequency === 'annually' ? 'default' : 'outline'}
+                                        variant={useHybridBands ? 'default' : 'outline'}
                                         size="sm"
-                                        onClick={() => setRebalanceFrequency('annually')}
+                                        onClick={() => setUseHybridBands(prev => !prev)}
                                         disabled={loading}
                                         className="text-xs"
                                     >
-                                        Annually
+                                        Only when drift exceeds bands
                                     </Button>
+                                )}
+                                {activeRebalanceBands && (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <div className="space-y-1">
+                                            <Label htmlFor="bandAbsolute" className="text-xs text-muted-foreground">Absolute band (pp)</Label>
+                                            <Input
+                                                id="bandAbsolute"
+                                                type="number"
+                                                value={rebalanceBands.absolute}
+                                                onChange={(e) => handleRebalanceBandChange('absolute', Number(e.target.value))}
+                                                min={0}
+                                                step={0.5}
+                                                className="h-8 font-mono"
+                                            />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <Label htmlFor="bandRelative" className="text-xs text-muted-foreground">Relative band (%)</Label>
+                                            <Input
+                                                id="bandRelative"
+                                                type="number"
+                                                value={rebalanceBands.relative}
+                                                onChange={(e) => handleRebalanceBandChange('relative', Number(e.target.value))}
+                                                min={0}
+                                                step={1}
+                                                className="h-8 font-mono"
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                                <p className="text-xs text-muted-foreground">
+                                    {isCalendarRebalance && useHybridBands
+                                        ? 'Checks drift on each calendar date and rebalances only if a band is breached'
+                                        : REBALANCE_OPTIONS.find(option => option.value === rebalanceFrequency)?.description}
+                                </p>
+                            </div>
+
+                            {/* Weighting Scheme */}
+                            <div className="space-y-2">
+                                <Label>Target Weights</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {WEIGHTING_OPTIONS.map(option => (
+                                        <Button
+                                            key={option.value}
+                                            type="button"
+                                            variant={weightingScheme === option.value ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setWeightingScheme(option.value)}
+                                            disabled={loading}
+                                            className="text-xs"
+                                        >
+                                            {option.label}
+                                        </Button>
+                                    ))}
                                 </div>
+                                {usesWeightingLookback && (
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <Label className="text-xs text-muted-foreground">Lookback</Label>
+                                        {WEIGHTING_LOOKBACK_OPTIONS.map(days => (
+                                            <Button
+                                                key={days}
+                                                type="button"
+                                                variant={weightingLookback === days ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => setWeightingLookback(days)}
+                                                disabled={loading}
+                                                className="text-xs h-7 px-2"
+                                            >
+                                                {days}d
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
                                 <p className="text-xs text-muted-foreground">
-                                    {rebalanceFrequency === 'none' && 'No rebalancing - weights drift over time'}
-                                    {rebalanceFrequency === 'quarterly' && 'Rebalances to target weights every quarter'}
-                                    {rebalanceFrequency === 'annually' && 'Rebalances to target weights every year'}
+                                    {WEIGHTING_OPTIONS.find(option => option.value === weightingScheme)?.description}
+                                    {weightingScheme !== 'manual' && (rebalanceFrequency === 'none'
+                                        ? '; set only at the start without rebalancing'
+                                        : '; recomputed at every rebalance. Manual weights only choose the universe')}
                                 </p>
                             </div>
+
+                            {/* Cash Yield */}
+                            {hasCashSleeve && (
+                                <div className="space-y-2">
+                                    <Label htmlFor="cashApy">Cash Yield (APY %)</Label>
+                                    <div className="flex gap-2">
+                                        <Input
+                                            id="cashApy"
+                                            type="number"
+                                            value={cashYield.source === 'risk-free' ? ANNUAL_RISK_FREE_RATE * 100 : cashYield.apy}
+                                            onChange={(e) => setCashYield({ source: 'fixed', apy: Number(e.target.value) })}
+                                            step={0.1}
+                                            className="h-8 font-mono"
+                                            disabled={cashYield.source === 'risk-free'}
+                                        />
+                                        <Button
+                                            type="button"
+                                            variant={cashYield.source === 'risk-free' ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setCashYield(prev => ({
+                                                ...prev,
+                                                source: prev.source === 'risk-free' ? 'fixed' : 'risk-free'
+                                            }))}
+                                            className="text-xs whitespace-nowrap"
+                                        >
+                                            Risk-Free Rate
+                                        </Button>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        Cash and stablecoin sleeves compound daily at this yield; moving in or out of cash is free
+                                    </p>
+                                </div>
+                            )}
+
+                            {/* Staking Yield */}
+                            {stakeableAssets.length > 0 && (
+                                <div className="space-y-2">
+                                    <Label>Staking Rewards</Label>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            type="button"
+                                            variant={!compoundStakingYield ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setCompoundStakingYield(false)}
+                                            disabled={loading}
+                                            className="text-xs"
+                                        >
+                                            Unstaked
+                                        </Button>
+                                        <Button
+                                            type="button"
+                                            variant={compoundStakingYield ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setCompoundStakingYield(true)}
+                                            disabled={loading}
+                                            className="text-xs"
+                                        >
+                                            Stake &amp; Compound
+                                        </Button>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        {compoundStakingYield ? 'Rewards compound daily into additional units: ' : 'Available yield: '}
+                                        {stakeableAssets.map(ticker => {
+                                            const asset = getAssetByTicker(ticker);
+                                            return `${asset?.symbol} ${asset?.stakingYield}%`;
+                                        }).join(', ')}
+                                    </p>
+                                </div>
+                            )}
+
+                            {/* Pre-listing Policy */}
+                            <div className="space-y-2">
+                                <Label>Assets Not Yet Listed</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {PRE_LISTING_OPTIONS.map(option => (
+                                        <Button
+                                            key={option.value}
+                                            type="button"
+                                            variant={preListingPolicy === option.value ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setPreListingPolicy(option.value)}
+                                            disabled={loading}
+                                            className="text-xs"
+                                        >
+                                            {option.label}
+                                        </Button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    {PRE_LISTING_OPTIONS.find(option => option.value === preListingPolicy)?.description}
+                                </p>
+                            </div>
+
+                            {/* Transaction Costs */}
+                            <div className="space-y-2">
+                                <Label>Transaction Costs</Label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <div className="space-y-1">
+                                        <Label htmlFor="percentageFee" className="text-xs text-muted-foreground">Fee (%)</Label>
+                                        <Input
+                                            id="percentageFee"
+                                            type="number"
+                                            value={transactionCosts.percentageFee}
+                                            onChange={(e) => handleTransactionCostChange('percentageFee', Number(e.target.value))}
+                                            min={0}
+                                            step={0.01}
+                                            className="h-8 font-mono"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label htmlFor="fixedFee" className="text-xs text-muted-foreground">Fixed ($)</Label>
+                                        <Input
+                                            id="fixedFee"
+                                            type="number"
+                                            value={transactionCosts.fixedFee}
+                                            onChange={(e) => handleTransactionCostChange('fixedFee', Number(e.target.value))}
+                                            min={0}
+                                            step={0.5}
+                                            className="h-8 font-mono"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label htmlFor="slippageBps" className="text-xs text-muted-foreground">Slippage (bps)</Label>
+                                        <Input
+                                            id="slippageBps"
+                                            type="number"
+                                            value={transactionCosts.slippageBps}
+                                            onChange={(e) => handleTransactionCostChange('slippageBps', Number(e.target.value))}
+                                            min={0}
+                                            step={1}
+                                            className="h-8 font-mono"
+                                        />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    Applied to the initial purchase and every rebalance. Total paid:{' '}
+                                    <span className="font-mono text-foreground">
+                                        ${portfolioHistory.totalCosts.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                                    </span>
+                                </p>
+                            </div>
+
+                            {/* Recurring Cash Flows */}
+                            <div className="space-y-2">
+                                <Label>Recurring Cash Flow</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {([
+                                        ['none', 'None'],
+                                        ['weekly', 'Weekly'],
+                                        ['biweekly', 'Bi-weekly'],
+                                        ['monthly', 'Monthly'],
+                                        ['custom', 'Custom'],
+                                    ] as const).map(([frequency, label]) => (
+                                        <Button
+                                            key={frequency}
+                                            type="button"
+                                            variant={cashFlowSchedule.frequency === frequency ? 'default' : 'outline'}
+                                            size="sm"
+                                            onClick={() => handleCashFlowChange({ frequency })}
+                                            disabled={loading}
+                                            className="text-xs"
+                                        >
+                                            {label}
+                                        </Button>
+                                    ))}
+                                </div>
+                                {cashFlowSchedule.frequency !== 'none' && (
+                                    <div className="space-y-2">
+                                        <div className="flex gap-2">
+                                            <Button
+                                                type="button"
+                                                variant={cashFlowSchedule.type === 'contribution' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => handleCashFlowChange({ type: 'contribution' })}
+                                                className="text-xs"
+                                            >
+                                                Contribute
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                variant={cashFlowSchedule.type === 'withdrawal' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => handleCashFlowChange({ type: 'withdrawal' })}
+                                                className="text-xs"
+                                            >
+                                                Withdraw
+                                            </Button>
+                                            <Input
+                                                type="number"
+                                                value={cashFlowSchedule.amount}
+                                                onChange={(e) => handleCashFlowChange({ amount: Math.max(0, Number(e.target.value)) })}
+                                                min={0}
+                                                className="h-8 font-mono"
+                                                aria-label="Cash flow amount ($)"
+                                            />
+                                        </div>
+                                        {cashFlowSchedule.frequency === 'custom' && (
+                                            <Input
+                                                key={(cashFlowSchedule.customDates || []).join(',')}
+                                                type="text"
+                                                placeholder="YYYY-MM-DD, YYYY-MM-DD, ..."
+                                                defaultValue={(cashFlowSchedule.customDates || []).join(', ')}
+                                                onBlur={(e) => handleCustomDatesChange(e.target.value)}
+                                                className="h-8 font-mono text-xs"
+                                                aria-label="Custom cash flow dates"
+                                            />
+                                        )}
+                                        <div className="flex gap-2">
+                                            <Button
+                                                type="button"
+                                                variant={cashFlowSchedule.allocation === 'target-weights' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => handleCashFlowChange({ allocation: 'target-weights' })}
+                                                className="text-xs"
+                                            >
+                                                By Target Weights
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                variant={cashFlowSchedule.allocation === 'rebalance' ? 'default' : 'outline'}
+                                                size="sm"
+                                                onClick={() => handleCashFlowChange({ allocation: 'rebalance' })}
+                                                className="text-xs"
+                                            >
+                                                Rebalance Toward Target
+                                            </Button>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">
+                                            {cashFlowSchedule.allocation === 'target-weights'
+                                                ? 'Contributions buy at target weights; withdrawals sell pro-rata to holdings'
+                                                : 'Each cash flow trades the portfolio back to target weights'}
+                                        </p>
+                                    </div>
+                                )}
+                            </div>
                         </CardContent>
                     </Card>
 
@@ -541,6 +1315,10 @@ export function PortfolioBuilder() {
                         onWeightChange={handleWeightChange}
                     />
 
+                    {attribution.assets.length > 0 && (
+                        <ReturnAttribution attribution={attribution} />
+                    )}
+
                     {/* Portfolio Presets */}
                     <Card className="border-0 shadow-sm bg-gradient-to-br from-primary/5 to-primary/10">
                         <CardHeader className="pb-3">
@@ -583,6 +1361,16 @@ export function PortfolioBuilder() {
                             startDate,
                             endDate,
                             rebalanceFrequency,
+                            rebalanceBands: activeRebalanceBands,
+                            rebalanceAnchor,
+                            transactionCosts,
+                            cashFlowSchedule,
+                            preListingPolicy,
+                            cashYield,
+                            compoundStakingYield,
+                            weightingScheme,
+                            weightingLookbackDays: weightingLookback,
+                            benchmarks: selectedBenchmarks,
                             createdAt: new Date().toISOString(),
                             lastModified: new Date().toISOString(),
                         }}
@@ -593,7 +1381,23 @@ export function PortfolioBuilder() {
                 {/* Main Content */}
                 <div className="w-full md:w-2/3 space-y-4">
                     {/* Export Buttons */}
-                    <div className="flex justify-end gap-2">
+                    <div className="flex justify-end items-center gap-2">
+                        {dataIsStale && (
+                            <span className="text-xs text-amber-600 flex items-center gap-1 mr-auto">
+                                <AlertTriangle className="h-3 w-3" />
+                                Upstream unavailable - showing cached prices
+                            </span>
+                        )}
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleRefreshData}
+                            disabled={loading}
+                            className="gap-2"
+                        >
+                            <RefreshCw className="h-4 w-4" />
+                            Refresh Data
+                        </Button>
                         <Button
                             variant="outline"
                             size="sm"
@@ -619,11 +1423,15 @@ export function PortfolioBuilder() {
                     {/* Dashboard Content for PDF Export */}
                     <div id="dashboard-content" className="space-y-4 bg-background p-4 rounded-lg">
                     {/* Asset Warning Banner */}
-                    {assetValidation && !assetValidation.valid && showWarning && (
+                    {assetValidation && showWarning && (
                         <AssetWarningBanner
                             invalidAssets={assetValidation.invalidAssets}
                             startDate={startDate}
                             earliestValidDate={assetValidation.earliestValidDate}
+                            preListingPolicy={preListingPolicy}
+                            symbolReports={symbolReports}
+                            onRetry={handleRetryAsset}
+                            retrying={loading}
                             onDismiss={() => setShowWarning(false)}
                         />
                     )}
@@ -643,7 +1451,11 @@ export function PortfolioBuilder() {
                                 title="Final Balance"
                                 value={`$${metrics.finalBalance.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
                                 icon={DollarSign}
-                                subtext={`Returns: ${(metrics.totalReturn * 100).toFixed(1)}%`}
+                                subtext={
+                                    portfolioHistory.cashFlows.length > 0 && metrics.netInvested !== undefined
+                                        ? `Returns: ${(metrics.totalReturn * 100).toFixed(1)}% · Net invested: $${metrics.netInvested.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+                                        : `Returns: ${(metrics.totalReturn * 100).toFixed(1)}%`
+                                }
                                 color="text-green-600"
                             />
                             <StatCard
@@ -665,26 +1477,106 @@ export function PortfolioBuilder() {
                                 color="text-orange-500"
                             />
                             <StatCard
-                                title="S&P 500 Correl."
-                                value={metrics.sp500Correlation !== undefined ? metrics.sp500Correlation.toFixed(2) : 'N/A'}
+                                title={`${primaryBenchmark ? getBenchmarkByTicker(primaryBenchmark)?.name ?? primaryBenchmark : 'Benchmark'} Correl.`}
+                                value={primaryCorrelation !== undefined ? primaryCorrelation.toFixed(2) : 'N/A'}
                                 icon={Activity}
                                 color={
-                                    metrics.sp500Correlation === undefined ? "text-gray-400" :
-                                    metrics.sp500Correlation > 0.7 ? "text-blue-600" :
-                                    metrics.sp500Correlation > 0.3 ? "text-gray-600" :
+                                    primaryCorrelation === undefined ? "text-gray-400" :
+                                    primaryCorrelation > 0.7 ? "text-blue-600" :
+                                    primaryCorrelation > 0.3 ? "text-gray-600" :
                                     "text-orange-500"
                                 }
                                 subtext={
-                                    metrics.sp500Correlation === undefined ? "Unavailable" :
-                                    metrics.sp500Correlation > 0.7 ? "High correlation" :
-                                    metrics.sp500Correlation > 0.3 ? "Moderate" :
+                                    primaryCorrelation === undefined ? "Unavailable" :
+                                    primaryCorrelation > 0.7 ? "High correlation" :
+                                    primaryCorrelation > 0.3 ? "Moderate" :
                                     "Low correlation"
                                 }
                             />
                         </div>
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            <StatCard
+                                title="Sortino Ratio"
+                                value={metrics.sortinoRatio.toFixed(2)}
+                                icon={Activity}
+                                subtext={`Downside dev: ${(metrics.downsideDeviation * 100).toFixed(1)}%`}
+                            />
+                            <StatCard
+                                title="Calmar Ratio"
+                                value={metrics.calmarRatio.toFixed(2)}
+                                icon={TrendingUp}
+                                subtext="CAGR / Max Drawdown"
+                            />
+                            <StatCard
+                                title="Omega Ratio"
+                                value={metrics.omegaRatio.toFixed(2)}
+                                icon={Activity}
+                                subtext="Gains / Losses vs 3% MAR"
+                            />
+                            <StatCard
+                                title="Ulcer Index"
+                                value={`${(metrics.ulcerIndex * 100).toFixed(1)}%`}
+                                icon={TrendingDown}
+                                color="text-red-500"
+                                subtext="Depth & duration of drawdowns"
+                            />
+                            <StatCard
+                                title="Martin Ratio"
+                                value={metrics.martinRatio.toFixed(2)}
+                                icon={Activity}
+                                subtext="Excess CAGR / Ulcer Index"
+                            />
+                        </div>
                     </div>
 
-                    <PerformanceChartTabs portfolioData={chartData} rollingMetrics={rollingMetrics} />
+                    <BenchmarkAnalytics
+                        selectedBenchmarks={selectedBenchmarks}
+                        onToggleBenchmark={handleToggleBenchmark}
+                        savedOptions={savedPortfolios.map(config => ({ value: config.id, label: `Saved: ${config.name}` }))}
+                        selectedSaved={savedBenchmarkId}
+                        onSelectSaved={setSavedBenchmarkId}
+                        onOpenSaved={() => setSavedPortfolios(getSavedPortfolios().configurations)}
+                        comparisons={benchmarkComparisons}
+                    />
+
+                    <CorrelationHeatmap
+                        matrix={correlationMatrix}
+                        labels={correlationLabels}
+                        frequency={correlationFrequency}
+                        onFrequencyChange={setCorrelationFrequency}
+                        windowDays={correlationWindow}
+                        onWindowChange={setCorrelationWindow}
+                    />
+
+                    <PortfolioOptimizer
+                        selectedAssets={selectedAssets}
+                        frontier={efficientFrontier}
+                        current={currentAllocationPoint}
+                        objective={optimizerObjective}
+                        onObjectiveChange={setOptimizerObjective}
+                        targetReturn={optimizerTargetReturn}
+                        onTargetReturnChange={setOptimizerTargetReturn}
+                        bounds={optimizerBounds}
+                        onBoundsChange={handleOptimizerBoundsChange}
+                        boundsError={optimizerBoundsError}
+                        onApply={handleApplyOptimalWeights}
+                    />
+
+                    <PerformanceChartTabs
+                        portfolioData={chartData}
+                        rollingMetrics={rollingMetrics}
+                        rollingWindow={rollingWindow}
+                        rollingStep={rollingStep}
+                        onRollingWindowChange={setRollingWindow}
+                        onRollingStepChange={setRollingStep}
+                        rollingBenchmarkName={primaryBenchmark ? getBenchmarkByTicker(primaryBenchmark)?.name ?? primaryBenchmark : undefined}
+                        holdings={portfolioHistory.holdings}
+                        targetWeights={weights}
+                        targetHistory={portfolioHistory.targetHistory}
+                        rebalanceDates={rebalanceDates}
+                        benchmarkOverlays={benchmarkOverlays}
+                        underwater={drawdownAnalysis.underwater}
+                    />
 
                     {/* Additional Stats */}
                     <div className="grid grid-cols-3 gap-3">
@@ -723,13 +1615,55 @@ export function PortfolioBuilder() {
                         </Card>
                     </div>
 
-                    {/* Monthly Performance */}
-                    {metrics.monthlyStats && (
-                        <div>
-                            <h3 className="text-lg font-semibold mb-4">Monthly Performance Breakdown</h3>
-                            <MonthlyPerformance monthlyStats={metrics.monthlyStats} />
-                        </div>
+                    {/* Drawdown Episodes */}
+                    <DrawdownEpisodes episodes={drawdownAnalysis.episodes} />
+
+                    <MonteCarloProjection
+                        projection={projectionRun?.projection ?? null}
+                        hasRun={!!projectionRun}
+                        stale={projectionStale}
+                        running={projectionRunning}
+                        progress={projectionProgress}
+                        onRun={handleRunProjection}
+                        method={projectionMethod}
+                        onMethodChange={setProjectionMethod}
+                        years={projectionYears}
+                        onYearsChange={setProjectionYears}
+                        paths={projectionPaths}
+                        onPathsChange={setProjectionPaths}
+                        goal={projectionGoal}
+                        onGoalChange={setProjectionGoal}
+                        lossPercent={projectionLossPercent}
+                        onLossPercentChange={setProjectionLossPercent}
+                    />
+
+                    {/* Value at Risk */}
+                    {riskReport.estimates.length > 0 && (
+                        <ValueAtRisk riskReport={riskReport} />
                     )}
+
+                    {/* Monthly Performance & Trade Ledger */}
+                    <Tabs defaultValue={metrics.monthlyStats ? "monthly" : "ledger"}>
+                        <TabsList className="h-8 mb-4">
+                            <TabsTrigger value="monthly" className="text-xs px-3" disabled={!metrics.monthlyStats}>
+                                Monthly Performance
+                            </TabsTrigger>
+                            <TabsTrigger value="ledger" className="text-xs px-3">
+                                Trade Ledger
+                            </TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="monthly" className="mt-0">
+                            {metrics.monthlyStats && (
+                                <MonthlyPerformance monthlyStats={metrics.monthlyStats} />
+                            )}
+                        </TabsContent>
+                        <TabsContent value="ledger" className="mt-0">
+                            <TradeLedger
+                                ledger={portfolioHistory.ledger ?? []}
+                                holdings={portfolioHistory.holdings ?? []}
+                            />
+                        </TabsContent>
+                    </Tabs>
                     </div>
                     {/* End of dashboard-content */}
                 </div>
@@ -13,6 +13,7 @@ import {
     deletePortfolioConfig
 } from "@/lib/portfolio-storage";
 import { PortfolioConfig } from "@/lib/types";
+import type { CashFlowSchedule, CashYield, PreListingPolicy, RebalanceAnchor, RebalanceBands, RebalanceFrequency, TransactionCosts, WeightingScheme } from "@/lib/types";
 import { Save, FolderOpen, Trash2, Check } from "lucide-react";
 
 interface PortfolioManagerProps {
@@ -24,7 +25,17 @@ interface PortfolioManagerProps {
         initialInvestment: number;
         startDate?: string;
         endDate?: string;
-        rebalanceFrequency?: string;
+        rebalanceFrequency?: RebalanceFrequency;
+        rebalanceBands?: RebalanceBands;
+        rebalanceAnchor?: RebalanceAnchor;
+        transactionCosts?: TransactionCosts;
+        cashFlowSchedule?: CashFlowSchedule;
+        preListingPolicy?: PreListingPolicy;
+        cashYield?: CashYield;
+        compoundStakingYield?: boolean;
+        weightingScheme?: WeightingScheme;
+        weightingLookbackDays?: number;
+        benchmarks?: string[];
         createdAt: string;
         lastModified: string;
     };
@@ -63,6 +74,17 @@ export function PortfolioManager({ currentConfig, onLoadConfig }: PortfolioManag
                 selectedAssets: currentConfig.selectedAssets,
                 weights: currentConfig.weights,
                 initialInvestment: currentConfig.initialInvestment,
+                rebalanceFrequency: currentConfig.rebalanceFrequency,
+                rebalanceBands: currentConfig.rebalanceBands,
+                rebalanceAnchor: currentConfig.rebalanceAnchor,
+                transactionCosts: currentConfig.transactionCosts,
+                cashFlowSchedule: currentConfig.cashFlowSchedule,
+                preListingPolicy: currentConfig.preListingPolicy,
+                cashYield: currentConfig.cashYield,
+                compoundStakingYield: currentConfig.compoundStakingYield,
+                weightingScheme: currentConfig.weightingScheme,
+                weightingLookbackDays: currentConfig.weightingLookbackDays,
+                benchmarks: currentConfig.benchmarks,
             });
 
             setSaveStatus('saved');
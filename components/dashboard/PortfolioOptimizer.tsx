@@ -0,0 +1,239 @@
+"use client"
+
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Target } from "lucide-react";
+import { getAssetByTicker } from "@/lib/crypto-assets";
+import type { EfficientFrontier, OptimizationObjective, OptimizedPortfolio } from "@/lib/optimizer";
+
+const OBJECTIVE_OPTIONS: { value: OptimizationObjective; label: string }[] = [
+    { value: 'max-sharpe', label: 'Max Sharpe' },
+    { value: 'min-variance', label: 'Min Variance' },
+    { value: 'target-return', label: 'Target Return' },
+];
+
+interface PortfolioOptimizerProps {
+    selectedAssets: string[];
+    frontier: EfficientFrontier | null;
+    current: OptimizedPortfolio | null; // The allocation in AssetAllocator
+    objective: OptimizationObjective;
+    onObjectiveChange: (objective: OptimizationObjective) => void;
+    targetReturn: number; // Annual %, used for 'target-return'
+    onTargetReturnChange: (targetReturn: number) => void;
+    bounds: { [ticker: string]: { min: number; max: number } }; // Percentages
+    onBoundsChange: (ticker: string, bounds: { min: number; max: number }) => void;
+    boundsError: string | null;
+    onApply: (portfolio: OptimizedPortfolio) => void;
+}
+
+interface FrontierPoint {
+    volatility: number; // %
+    expectedReturn: number; // %
+    label?: string;
+}
+
+interface FrontierTooltipProps {
+    active?: boolean;
+    payload?: { payload: FrontierPoint }[];
+}
+
+// Defined outside PortfolioOptimizer so recharts doesn't remount it on every render
+function FrontierTooltip({ active, payload }: FrontierTooltipProps) {
+    if (active && payload && payload.length) {
+        const point = payload[0].payload;
+        return (
+            <div className="bg-white/90 dark:bg-black/90 p-2 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-xs">
+                {point.label && <p className="font-semibold">{point.label}</p>}
+                <p className="font-mono">Return: {point.expectedReturn.toFixed(1)}%</p>
+                <p className="font-mono">Volatility: {point.volatility.toFixed(1)}%</p>
+            </div>
+        );
+    }
+    return null;
+}
+
+export function PortfolioOptimizer({
+    selectedAssets,
+    frontier,
+    current,
+    objective,
+    onObjectiveChange,
+    targetReturn,
+    onTargetReturnChange,
+    bounds,
+    onBoundsChange,
+    boundsError,
+    onApply
+}: PortfolioOptimizerProps) {
+    const toPoint = (portfolio: OptimizedPortfolio, label?: string): FrontierPoint => ({
+        volatility: portfolio.volatility * 100,
+        expectedReturn: portfolio.expectedReturn * 100,
+        label
+    });
+
+    const optimal = frontier
+        ? objective === 'max-sharpe' ? frontier.maxSharpe
+            : objective === 'min-variance' ? frontier.minVariance
+                : frontier.target ?? null
+        : null;
+    const optimalLabel = OBJECTIVE_OPTIONS.find(option => option.value === objective)?.label ?? 'Optimal';
+
+    return (
+        <Card className="border-0 shadow-sm">
+            <CardHeader className="space-y-3 pb-3">
+                <div className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-sm font-medium">Efficient Frontier</CardTitle>
+                    <Target className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                    {OBJECTIVE_OPTIONS.map(option => (
+                        <Button
+                            key={option.value}
+                            type="button"
+                            variant={objective === option.value ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onObjectiveChange(option.value)}
+                            className="text-xs h-7 px-2"
+                        >
+                            {option.label}
+                        </Button>
+                    ))}
+                    {objective === 'target-return' && (
+                        <div className="flex items-center gap-1 ml-2">
+                            <Input
+                                type="number"
+                                value={targetReturn}
+                                onChange={(e) => onTargetReturnChange(Number(e.target.value))}
+                                className="w-20 h-7 text-xs text-right"
+                            />
+                            <span className="text-xs text-muted-foreground">% / yr</span>
+                        </div>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {!frontier ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                        {boundsError ?? 'Need at least 30 days where every selected asset has prices'}
+                    </p>
+                ) : (
+                    <>
+                        <div className="h-[240px]">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <ComposedChart margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+                                    <XAxis
+                                        type="number"
+                                        dataKey="volatility"
+                                        domain={['auto', 'auto']}
+                                        tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                                        tick={{ fontSize: 12, fill: '#888' }}
+                                        axisLine={false}
+                                        tickLine={false}
+                                        label={{ value: 'Volatility', position: 'insideBottom', offset: -5, fontSize: 11, fill: '#888' }}
+                                    />
+                                    <YAxis
+                                        type="number"
+                                        dataKey="expectedReturn"
+                                        domain={['auto', 'auto']}
+                                        tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                                        tick={{ fontSize: 12, fill: '#888' }}
+                                        axisLine={false}
+                                        tickLine={false}
+                                        width={50}
+                                    />
+                                    <Tooltip content={<FrontierTooltip />} />
+                                    <Line
+                                        data={frontier.points.map(point => toPoint(point))}
+                                        dataKey="expectedReturn"
+                                        stroke="#6366f1"
+                                        strokeWidth={2}
+                                        dot={false}
+                                        isAnimationActive={false}
+                                    />
+                                    {current && (
+                                        <Scatter data={[toPoint(current, 'Current allocation')]} fill="#f97316" />
+                                    )}
+                                    {optimal && (
+                                        <Scatter data={[toPoint(optimal, optimalLabel)]} fill="#16a34a" shape="star" />
+                                    )}
+                                </ComposedChart>
+                            </ResponsiveContainer>
+                        </div>
+                        <div className="flex justify-center gap-4 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-orange-500" />Current</span>
+                            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-600" />{optimalLabel}</span>
+                        </div>
+                    </>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b">
+                                <th className="text-left py-2 px-1 font-medium text-muted-foreground">Asset</th>
+                                <th className="text-right py-2 px-1 font-medium text-muted-foreground">Min %</th>
+                                <th className="text-right py-2 px-1 font-medium text-muted-foreground">Max %</th>
+                                <th className="text-right py-2 px-1 font-medium text-muted-foreground">Optimal</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {selectedAssets.map(ticker => {
+                                const assetBounds = bounds[ticker] ?? { min: 0, max: 100 };
+                                return (
+                                    <tr key={ticker} className="border-b last:border-0">
+                                        <td className="py-1 px-1 font-medium">{getAssetByTicker(ticker)?.symbol ?? ticker}</td>
+                                        <td className="py-1 px-1 text-right">
+                                            <Input
+                                                type="number"
+                                                value={assetBounds.min}
+                                                onChange={(e) => onBoundsChange(ticker, { ...assetBounds, min: Number(e.target.value) })}
+                                                className="w-16 h-7 text-xs text-right ml-auto"
+                                                min={0}
+                                                max={100}
+                                            />
+                                        </td>
+                                        <td className="py-1 px-1 text-right">
+                                            <Input
+                                                type="number"
+                                                value={assetBounds.max}
+                                                onChange={(e) => onBoundsChange(ticker, { ...assetBounds, max: Number(e.target.value) })}
+                                                className="w-16 h-7 text-xs text-right ml-auto"
+                                                min={0}
+                                                max={100}
+                                            />
+                                        </td>
+                                        <td className="py-1 px-1 text-right font-mono">
+                                            {optimal ? `${((optimal.weights[ticker] ?? 0) * 100).toFixed(1)}%` : '-'}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                {frontier && boundsError === null && optimal && (
+                    <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground/70">
+                            {optimalLabel}: {(optimal.expectedReturn * 100).toFixed(1)}% return,{' '}
+                            {(optimal.volatility * 100).toFixed(1)}% volatility, Sharpe {optimal.sharpeRatio.toFixed(2)}
+                        </p>
+                        <Button type="button" size="sm" className="h-8 text-xs" onClick={() => onApply(optimal)}>
+                            Apply optimal weights
+                        </Button>
+                    </div>
+                )}
+                {boundsError && (
+                    <p className="text-xs text-red-600">{boundsError}</p>
+                )}
+                <p className="text-xs text-muted-foreground/70">
+                    Mean-variance estimates from {frontier?.observations ?? 0} days where every asset traded (3% risk-free rate).
+                    Historical returns are not a forecast.
+                </p>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PieChart } from "lucide-react";
+import { getAssetByTicker } from "@/lib/crypto-assets";
+import type { AttributionReport } from "@/lib/attribution";
+
+interface ReturnAttributionProps {
+    attribution: AttributionReport;
+}
+
+interface WaterfallStep {
+    name: string;
+    range: [number, number]; // Bar start and end, in percentage points
+    contribution: number;
+    isTotal: boolean;
+}
+
+interface WaterfallTooltipProps {
+    active?: boolean;
+    payload?: { payload: WaterfallStep }[];
+}
+
+// Defined outside ReturnAttribution so recharts doesn't remount it on every render
+function WaterfallTooltip({ active, payload }: WaterfallTooltipProps) {
+    if (active && payload && payload.length) {
+        const step = payload[0].payload;
+        return (
+            <div className="bg-white/90 dark:bg-black/90 p-2 border border-zinc-200 dark:border-zinc-800 rounded shadow-lg text-xs">
+                <p className="font-semibold">{step.name}</p>
+                <p className={`font-mono ${step.contribution >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {step.contribution >= 0 ? '+' : ''}{step.contribution.toFixed(2)}%
+                </p>
+            </div>
+        );
+    }
+    return null;
+}
+
+export function ReturnAttribution({ attribution }: ReturnAttributionProps) {
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const getSymbol = (ticker: string) => getAssetByTicker(ticker)?.symbol ?? ticker.replace('-USD', '');
+
+    // Each asset's bar starts where the previous one ended; the total bar starts from zero
+    const steps: WaterfallStep[] = [];
+    let running = 0;
+    const addStep = (name: string, contribution: number) => {
+        const start = running;
+        running += contribution * 100;
+        steps.push({ name, range: [Math.min(start, running), Math.max(start, running)], contribution: contribution * 100, isTotal: false });
+    };
+    attribution.assets.forEach(asset => addStep(getSymbol(asset.ticker), asset.returnContribution));
+    if (Math.abs(attribution.residualReturn) >= 0.0005) {
+        addStep('Other', attribution.residualReturn);
+    }
+    const total = attribution.totalReturn * 100;
+    steps.push({ name: 'Total', range: [Math.min(0, total), Math.max(0, total)], contribution: total, isTotal: true });
+
+    return (
+        <Card className="border-0 shadow-sm">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                <CardTitle className="text-lg">Attribution</CardTitle>
+                <PieChart className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="h-[180px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={steps}>
+                            <XAxis
+                                dataKey="name"
+                                tick={{ fontSize: 11, fill: '#888' }}
+                                axisLine={false}
+                                tickLine={false}
+                                interval={0}
+                            />
+                            <YAxis
+                                tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                                tick={{ fontSize: 11, fill: '#888' }}
+                                axisLine={false}
+                                tickLine={false}
+                                width={45}
+                            />
+                            <Tooltip content={<WaterfallTooltip />} cursor={{ fill: 'rgba(0,0,0,0.04)' }} />
+                            <ReferenceLine y={0} stroke="#9ca3af" />
+                            <Bar dataKey="range" radius={2}>
+                                {steps.map(step => (
+                                    <Cell
+                                        key={step.name}
+                                        fill={step.isTotal ? '#6366f1' : step.contribution >= 0 ? '#22c55e' : '#ef4444'}
+                                    />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b">
+                                <th className="text-left py-2 px-1 font-medium text-muted-foreground">Asset</th>
+                                <th className="text-right py-2 px-1 font-medium text-muted-foreground">Return</th>
+                                <th className="text-right py-2 px-1 font-medium text-muted-foreground">Weight</th>
+                                <th className="text-right py-2 px-1 font-medium text-muted-foreground">Marginal Risk</th>
+                                <th className="text-right py-2 px-1 font-medium text-muted-foreground">Risk Share</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {attribution.assets.map(asset => (
+                                <tr key={asset.ticker} className="border-b last:border-0">
+                                    <td className="py-2 px-1 font-medium">{getSymbol(asset.ticker)}</td>
+                                    <td className={`text-right py-2 px-1 ${asset.returnContribution >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                        {formatPercent(asset.returnContribution)}
+                                    </td>
+                                    <td className="text-right py-2 px-1 text-muted-foreground">{formatPercent(asset.weight)}</td>
+                                    <td className="text-right py-2 px-1 text-muted-foreground">{formatPercent(asset.marginalRisk)}</td>
+                                    <td className="text-right py-2 px-1">{formatPercent(asset.riskShare)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <p className="text-xs text-muted-foreground/70">
+                    Return contributions add up to the {formatPercent(attribution.totalReturn)} time-weighted return;
+                    &quot;Other&quot; is cash yield, staking rewards and trading costs. Risk shares split the
+                    {' '}{formatPercent(attribution.volatility)} annualized volatility of current weights
+                    ({attribution.observations} days of returns).
+                </p>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,209 @@
+"use client"
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDownRight, ArrowUpRight, Receipt } from "lucide-react";
+import type { DailyHoldings, LedgerEntry, TradeReason } from "@/lib/finance";
+
+interface TradeLedgerProps {
+    ledger: LedgerEntry[];
+    holdings: DailyHoldings[];
+}
+
+const REASON_FILTERS: { value: TradeReason | 'all'; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'initial', label: 'Initial' },
+    { value: 'rebalance', label: 'Rebalance' },
+    { value: 'listing', label: 'Listing' },
+    { value: 'contribution', label: 'Contribution' },
+    { value: 'withdrawal', label: 'Withdrawal' },
+];
+
+// Rendering every trade of a daily-rebalanced multi-year backtest would stall the page; the CSV has them all
+const MAX_VISIBLE_TRADES = 200;
+
+export function TradeLedger({ ledger, holdings }: TradeLedgerProps) {
+    const [reasonFilter, setReasonFilter] = useState<TradeReason | 'all'>('all');
+
+    const formatCurrency = (value: number, decimals: number = 2) =>
+        `$${value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}`;
+    const formatUnits = (value: number) =>
+        value.toLocaleString('en-US', { maximumFractionDigits: value >= 1 ? 4 : 8 });
+    const formatSymbol = (ticker: string) => ticker.replace('-USD', '');
+
+    const filteredTrades = reasonFilter === 'all'
+        ? ledger
+        : ledger.filter(trade => trade.reason === reasonFilter);
+    // Most recent trades first
+    const visibleTrades = filteredTrades.slice(-MAX_VISIBLE_TRADES).reverse();
+
+    const totalFees = ledger.reduce((sum, trade) => sum + trade.fee, 0);
+    const totalTurnover = ledger
+        .filter(trade => trade.reason !== 'initial')
+        .reduce((sum, trade) => sum + trade.notional, 0);
+    const rebalanceCount = new Set(
+        ledger.filter(trade => trade.reason === 'rebalance').map(trade => trade.date)
+    ).size;
+
+    const latestHoldings = holdings[holdings.length - 1];
+
+    return (
+        <div className="space-y-4">
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card className="border-0 shadow-sm bg-gradient-to-br from-card to-card/50">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-xs font-medium uppercase tracking-wider text-muted-foreground/80">
+                            Trades
+                        </CardTitle>
+                        <Receipt className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent className="pt-1">
+                        <div className="text-2xl font-bold">{ledger.length}</div>
+                        <p className="text-xs text-muted-foreground/70 mt-1.5">
+                            {rebalanceCount} rebalance{rebalanceCount === 1 ? '' : 's'}
+                        </p>
+                    </CardContent>
+                </Card>
+
+                <Card className="border-0 shadow-sm bg-gradient-to-br from-card to-card/50">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-xs font-medium uppercase tracking-wider text-muted-foreground/80">
+                            Turnover
+                        </CardTitle>
+                        <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent className="pt-1">
+                        <div className="text-2xl font-bold">{formatCurrency(totalTurnover, 0)}</div>
+                        <p className="text-xs text-muted-foreground/70 mt-1.5">Traded after the initial purchase</p>
+                    </CardContent>
+                </Card>
+
+                <Card className="border-0 shadow-sm bg-gradient-to-br from-card to-card/50">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-xs font-medium uppercase tracking-wider text-muted-foreground/80">
+                            Fees Paid
+                        </CardTitle>
+                        <ArrowDownRight className="h-4 w-4 text-red-600" />
+                    </CardHeader>
+                    <CardContent className="pt-1">
+                        <div className="text-2xl font-bold text-red-600">{formatCurrency(totalFees)}</div>
+                        <p className="text-xs text-muted-foreground/70 mt-1.5">Fees and slippage</p>
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Current Holdings */}
+            {latestHoldings && (
+                <Card className="border-0 shadow-sm">
+                    <CardHeader>
+                        <CardTitle className="text-sm font-medium">
+                            Holdings on {new Date(latestHoldings.date).toLocaleDateString('en-US', { timeZone: 'UTC' })}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b">
+                                        <th className="text-left py-2 px-2 font-medium text-muted-foreground">Asset</th>
+                                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Units</th>
+                                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Weight</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {Object.keys(latestHoldings.units).map((ticker) => (
+                                        <tr key={ticker} className="border-b last:border-0">
+                                            <td className="py-2 px-2">{formatSymbol(ticker)}</td>
+                                            <td className="text-right py-2 px-2 font-mono">{formatUnits(latestHoldings.units[ticker])}</td>
+                                            <td className="text-right py-2 px-2 text-muted-foreground">
+                                                {((latestHoldings.weights[ticker] || 0) * 100).toFixed(2)}%
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {latestHoldings.cash > 0 && (
+                                        <tr className="border-b last:border-0">
+                                            <td className="py-2 px-2">Cash (awaiting listing)</td>
+                                            <td className="text-right py-2 px-2 font-mono">{formatCurrency(latestHoldings.cash)}</td>
+                                            <td className="text-right py-2 px-2 text-muted-foreground">-</td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Trade Table */}
+            <Card className="border-0 shadow-sm">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-sm font-medium">Trade Ledger</CardTitle>
+                    <div className="flex flex-wrap gap-1">
+                        {REASON_FILTERS.map(({ value, label }) => (
+                            <Button
+                                key={value}
+                                type="button"
+                                variant={reasonFilter === value ? 'default' : 'outline'}
+                                size="sm"
+                                onClick={() => setReasonFilter(value)}
+                                className="text-xs h-7 px-2"
+                            >
+                                {label}
+                            </Button>
+                        ))}
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {visibleTrades.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-4">No trades</p>
+                    ) : (
+                        <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b">
+                                        <th className="text-left py-2 px-2 font-medium text-muted-foreground">Date</th>
+                                        <th className="text-left py-2 px-2 font-medium text-muted-foreground">Asset</th>
+                                        <th className="text-left py-2 px-2 font-medium text-muted-foreground">Side</th>
+                                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Units</th>
+                                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Price</th>
+                                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Notional</th>
+                                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Fee</th>
+                                        <th className="text-left py-2 px-2 font-medium text-muted-foreground">Reason</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {visibleTrades.map((trade, index) => (
+                                        <tr key={`${trade.date}-${trade.ticker}-${trade.reason}-${index}`} className="border-b last:border-0">
+                                            <td className="py-2 px-2 whitespace-nowrap">{trade.date}</td>
+                                            <td className="py-2 px-2">{formatSymbol(trade.ticker)}</td>
+                                            <td className={`py-2 px-2 font-medium ${trade.side === 'buy' ? 'text-green-600' : 'text-red-600'}`}>
+                                                {trade.side === 'buy' ? 'Buy' : 'Sell'}
+                                            </td>
+                                            <td className="text-right py-2 px-2 font-mono">{formatUnits(trade.units)}</td>
+                                            <td className="text-right py-2 px-2 text-muted-foreground">{formatCurrency(trade.price)}</td>
+                                            <td className="text-right py-2 px-2">{formatCurrency(trade.notional)}</td>
+                                            <td className="text-right py-2 px-2 text-muted-foreground">{formatCurrency(trade.fee)}</td>
+                                            <td className="py-2 px-2">
+                                                <Badge variant="secondary" className="text-[10px] px-1.5 py-0 capitalize">
+                                                    {trade.reason}
+                                                </Badge>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    {filteredTrades.length > MAX_VISIBLE_TRADES && (
+                        <p className="text-xs text-muted-foreground text-center mt-2">
+                            Showing the latest {MAX_VISIBLE_TRADES} of {filteredTrades.length} trades. Export CSV for the full ledger.
+                        </p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+import { VAR_CONFIDENCE_LEVELS, VAR_METHODS } from "@/lib/risk";
+import type { RiskReport, VaRMethod } from "@/lib/risk";
+
+interface ValueAtRiskProps {
+    riskReport: RiskReport;
+}
+
+const METHOD_LABELS: Record<VaRMethod, string> = {
+    'historical': 'Historical',
+    'parametric': 'Parametric (Normal)',
+    'cornish-fisher': 'Cornish-Fisher',
+};
+
+export function ValueAtRisk({ riskReport }: ValueAtRiskProps) {
+    const formatLoss = (amount: number, fraction: number) => (
+        <>
+            <span className="font-medium text-red-600">
+                ${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}
+            </span>
+            <span className="text-muted-foreground ml-1">({(fraction * 100).toFixed(1)}%)</span>
+        </>
+    );
+
+    const findEstimate = (method: VaRMethod, confidence: number, horizonDays: number) =>
+        riskReport.estimates.find(e => e.method === method && e.confidence === confidence && e.horizonDays === horizonDays);
+
+    const renderCell = (method: VaRMethod, confidence: number, horizonDays: number, field: 'var' | 'es') => {
+        const estimate = findEstimate(method, confidence, horizonDays);
+        if (!estimate) return <span className="text-muted-foreground">N/A</span>;
+        return field === 'var'
+            ? formatLoss(estimate.valueAtRiskAmount, estimate.valueAtRisk)
+            : formatLoss(estimate.expectedShortfallAmount, estimate.expectedShortfall);
+    };
+
+    return (
+        <Card className="border-0 shadow-sm">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-sm font-medium">Value at Risk &amp; Expected Shortfall</CardTitle>
+                <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b">
+                                <th className="text-left py-2 px-2 font-medium text-muted-foreground">Method</th>
+                                <th className="text-left py-2 px-2 font-medium text-muted-foreground">Confidence</th>
+                                <th className="text-right py-2 px-2 font-medium text-muted-foreground">1-Day VaR</th>
+                                <th className="text-right py-2 px-2 font-medium text-muted-foreground">1-Day CVaR</th>
+                                <th className="text-right py-2 px-2 font-medium text-muted-foreground">1-Month VaR</th>
+                                <th className="text-right py-2 px-2 font-medium text-muted-foreground">1-Month CVaR</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {VAR_METHODS.map(method => VAR_CONFIDENCE_LEVELS.map(confidence => (
+                                <tr key={`${method}-${confidence}`} className="border-b last:border-0">
+                                    <td className="py-2 px-2">{METHOD_LABELS[method]}</td>
+                                    <td className="py-2 px-2 text-muted-foreground">{(confidence * 100).toFixed(0)}%</td>
+                                    <td className="text-right py-2 px-2 whitespace-nowrap">{renderCell(method, confidence, 1, 'var')}</td>
+                                    <td className="text-right py-2 px-2 whitespace-nowrap">{renderCell(method, confidence, 1, 'es')}</td>
+                                    <td className="text-right py-2 px-2 whitespace-nowrap">{renderCell(method, confidence, 30, 'var')}</td>
+                                    <td className="text-right py-2 px-2 whitespace-nowrap">{renderCell(method, confidence, 30, 'es')}</td>
+                                </tr>
+                            )))}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-muted-foreground/70 mt-3">
+                    Potential loss on the final balance from {riskReport.observations} daily returns
+                    (skew {riskReport.skewness.toFixed(2)}, excess kurtosis {riskReport.excessKurtosis.toFixed(2)}).
+                    1-month is 30 days. Historical estimates need at least 100 observations.
+                </p>
+            </CardContent>
+        </Card>
+    );
+}
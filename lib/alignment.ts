@@ -0,0 +1,38 @@
+import type { DailyData } from './finance';
+import type { PricePoint } from './market-data-cache';
+
+/**
+ * Align per-symbol price series onto one sorted date axis and forward-fill the gaps.
+ * Every date any symbol has a price becomes a row. A symbol missing on a date carries its last
+ * price forward (weekends for stocks, outages for crypto); before its first price it is 0, which
+ * the simulation treats as not yet listed.
+ * Runs in O(rows × symbols) using a date → price map per symbol, so it is cheap enough for the
+ * client or a worker as well as the API route.
+ * @param series - Prices per symbol; each series may be in any order and need not share dates
+ * @param symbols - Columns to emit, in order; a symbol without a series is all zeros
+ */
+export function alignMarketData(
+    series: { [symbol: string]: PricePoint[] },
+    symbols: string[] = Object.keys(series)
+): DailyData[] {
+    const pricesBySymbol = symbols.map(symbol => {
+        const prices = new Map<string, number>();
+        (series[symbol] ?? []).forEach(point => prices.set(point.date, point.price));
+        return prices;
+    });
+
+    const uniqueDates = new Set<string>();
+    pricesBySymbol.forEach(prices => prices.forEach((_, date) => uniqueDates.add(date)));
+    const sortedDates = Array.from(uniqueDates).sort();
+
+    const lastKnown = symbols.map(() => 0);
+    return sortedDates.map(date => {
+        const row: DailyData = { date };
+        symbols.forEach((symbol, k) => {
+            const price = pricesBySymbol[k].get(date);
+            if (price !== undefined && price !== null) lastKnown[k] = price;
+            row[symbol] = lastKnown[k];
+        });
+        return row;
+    });
+}
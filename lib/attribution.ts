@@ -0,0 +1,110 @@
+import { calculateTimeWeightedValues } from './finance';
+import type { CashFlow, DailyData, DailyHoldings } from './finance';
+import { alignedDailyReturns, sampleCovariance } from './returns';
+
+export interface AssetAttribution {
+    ticker: string;
+    returnContribution: number; // Share of the total (time-weighted) return, as a fraction
+    weight: number; // Weight used for the risk decomposition, as a fraction
+    marginalRisk: number; // Change in annualized volatility per unit of extra weight
+    riskContribution: number; // weight × marginal risk; sums to the portfolio volatility
+    riskShare: number; // riskContribution / volatility
+}
+
+export interface AttributionReport {
+    assets: AssetAttribution[];
+    totalReturn: number; // Time-weighted return over the period
+    residualReturn: number; // Cash yield, staking rewards and trading costs not explained by prices
+    volatility: number; // Annualized, from the covariance of daily asset returns
+    observations: number; // Days of returns behind the covariance matrix
+}
+
+// Helper for the Carino linking coefficient ln(1 + r) / r, which is 1 in the limit r → 0
+function carinoFactor(r: number): number {
+    return Math.abs(r) < 1e-12 ? 1 : Math.log(1 + r) / r;
+}
+
+/**
+ * Break the portfolio's return and volatility down by asset.
+ * Return contributions are each asset's daily weight × price return, linked across days with
+ * Carino smoothing so they add up to the time-weighted total; whatever prices don't explain is
+ * reported as the residual. Risk contributions come from the covariance of daily returns.
+ * @param marketData - Daily prices, covering the dates in holdings
+ * @param holdings - Daily holdings from calculatePortfolioHistory (recordLedger)
+ * @param portfolioValues - Daily portfolio values
+ * @param cashFlows - Contributions/withdrawals, stripped out of the return
+ * @param riskWeights - Weights (fractions) to decompose volatility for, e.g. the latest holdings
+ */
+export function calculateAttribution(
+    marketData: DailyData[],
+    holdings: DailyHoldings[],
+    portfolioValues: { date: string; value: number }[],
+    cashFlows: CashFlow[],
+    riskWeights: { [ticker: string]: number }
+): AttributionReport {
+    const tickers = holdings.length > 0 ? Object.keys(holdings[0].weights) : [];
+    const performanceValues = calculateTimeWeightedValues(portfolioValues, cashFlows);
+    const pricesByDate = new Map(marketData.map(day => [day.date, day]));
+
+    // Measured from the first funded day, so a DCA schedule starting from $0 doesn't divide by zero
+    const startValue = performanceValues.find(point => point.value > 0)?.value ?? 0;
+    const totalReturn = performanceValues.length > 1 && startValue > 0
+        ? performanceValues[performanceValues.length - 1].value / startValue - 1
+        : 0;
+    const totalFactor = carinoFactor(totalReturn);
+
+    // Sum of each day's weight × return, scaled by that day's share of the log return
+    const contributions: { [ticker: string]: number } = {};
+    tickers.forEach(ticker => { contributions[ticker] = 0; });
+    for (let i = 1; i < holdings.length && i < performanceValues.length; i++) {
+        const prev = pricesByDate.get(holdings[i - 1].date);
+        const curr = pricesByDate.get(holdings[i].date);
+        if (!prev || !curr || performanceValues[i - 1].value <= 0) continue;
+
+        const portfolioReturn = performanceValues[i].value / performanceValues[i - 1].value - 1;
+        const linking = carinoFactor(portfolioReturn) / totalFactor;
+        tickers.forEach(ticker => {
+            const prevPrice = prev[ticker] as number;
+            const currPrice = curr[ticker] as number;
+            const weight = holdings[i - 1].weights[ticker] || 0;
+            if (weight > 0 && prevPrice > 0 && currPrice > 0) {
+                contributions[ticker] += linking * weight * (currPrice / prevPrice - 1);
+            }
+        });
+    }
+
+    // Risk decomposition: σ = √(wᵀΣw), marginal = (Σw)ᵢ / σ, contribution = wᵢ × marginal
+    // Cash sleeves are riskless, so they never shrink the window of days the covariance is built from
+    const returns = alignedDailyReturns(marketData, tickers);
+    const covariance = sampleCovariance(returns);
+    const observations = returns.length > 0 ? returns[0].length : 0;
+    const w = tickers.map(ticker => riskWeights[ticker] || 0);
+    const covTimesWeights = covariance.map(row => row.reduce((sum, c, k) => sum + c * w[k], 0));
+    const dailyVariance = w.reduce((sum, weight, k) => sum + weight * covTimesWeights[k], 0);
+    const dailyVolatility = Math.sqrt(Math.max(0, dailyVariance));
+    const annualization = Math.sqrt(365);
+    const volatility = dailyVolatility * annualization;
+
+    const assets: AssetAttribution[] = tickers.map((ticker, k) => {
+        const marginalRisk = dailyVolatility > 0 ? (covTimesWeights[k] / dailyVolatility) * annualization : 0;
+        const riskContribution = w[k] * marginalRisk;
+        return {
+            ticker,
+            returnContribution: contributions[ticker],
+            weight: w[k],
+            marginalRisk,
+            riskContribution,
+            riskShare: volatility > 0 ? riskContribution / volatility : 0
+        };
+    });
+
+    const explained = assets.reduce((sum, asset) => sum + asset.returnContribution, 0);
+
+    return {
+        assets,
+        totalReturn,
+        residualReturn: totalReturn - explained,
+        volatility,
+        observations
+    };
+}
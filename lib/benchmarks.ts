@@ -0,0 +1,21 @@
+export interface Benchmark {
+    ticker: string;      // Yahoo Finance symbol, e.g., "^GSPC"
+    name: string;        // e.g., "S&P 500"
+    chartColor: string;  // Hex color for chart overlays
+}
+
+// Benchmarks the market-data route will fetch; anything else in the benchmarks parameter is ignored
+export const AVAILABLE_BENCHMARKS: Benchmark[] = [
+    { ticker: '^GSPC', name: 'S&P 500', chartColor: '#6366f1' },
+    { ticker: '^NDX', name: 'Nasdaq 100', chartColor: '#0ea5e9' },
+    { ticker: '^IXIC', name: 'Nasdaq Composite', chartColor: '#14b8a6' },
+    { ticker: 'GC=F', name: 'Gold', chartColor: '#ca8a04' },
+    { ticker: 'TLT', name: '20+ Year Treasuries', chartColor: '#64748b' },
+    { ticker: 'BTC-USD', name: 'Bitcoin', chartColor: '#f97316' },
+];
+
+export const DEFAULT_BENCHMARKS = ['^GSPC'];
+
+export function getBenchmarkByTicker(ticker: string): Benchmark | undefined {
+    return AVAILABLE_BENCHMARKS.find(benchmark => benchmark.ticker === ticker);
+}
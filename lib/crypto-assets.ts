@@ -3,27 +3,36 @@ export interface CryptoAsset {
     name: string;        // e.g., "Bitcoin"
     symbol: string;      // e.g., "BTC"
     color: string;       // Tailwind color class for UI
+    chartColor: string;  // Matching hex color for charts
     marketCapRank: number; // For sorting/filtering
+    isCash?: boolean;    // Cash/stablecoin sleeve: priced at $1 plus accrued yield, no market data
+    stakingYield?: number; // Approximate native staking APY in % (e.g., 3.5)
 }
 
 export const AVAILABLE_CRYPTO_ASSETS: CryptoAsset[] = [
-    { ticker: 'BTC-USD', name: 'Bitcoin', symbol: 'BTC', color: 'bg-orange-500', marketCapRank: 1 },
-    { ticker: 'ETH-USD', name: 'Ethereum', symbol: 'ETH', color: 'bg-blue-600', marketCapRank: 2 },
-    { ticker: 'BNB-USD', name: 'BNB', symbol: 'BNB', color: 'bg-yellow-500', marketCapRank: 4 },
-    { ticker: 'SOL-USD', name: 'Solana', symbol: 'SOL', color: 'bg-purple-500', marketCapRank: 5 },
-    { ticker: 'XRP-USD', name: 'Ripple', symbol: 'XRP', color: 'bg-black', marketCapRank: 6 },
-    { ticker: 'DOGE-USD', name: 'Dogecoin', symbol: 'DOGE', color: 'bg-yellow-400', marketCapRank: 8 },
-    { ticker: 'ADA-USD', name: 'Cardano', symbol: 'ADA', color: 'bg-blue-400', marketCapRank: 10 },
-    { ticker: 'AVAX-USD', name: 'Avalanche', symbol: 'AVAX', color: 'bg-red-500', marketCapRank: 11 },
-    { ticker: 'DOT-USD', name: 'Polkadot', symbol: 'DOT', color: 'bg-pink-500', marketCapRank: 12 },
-    { ticker: 'MATIC-USD', name: 'Polygon', symbol: 'MATIC', color: 'bg-indigo-600', marketCapRank: 13 },
-    { ticker: 'LINK-USD', name: 'Chainlink', symbol: 'LINK', color: 'bg-blue-500', marketCapRank: 14 },
-    { ticker: 'UNI7083-USD', name: 'Uniswap', symbol: 'UNI', color: 'bg-pink-600', marketCapRank: 20 },
-    { ticker: 'ATOM-USD', name: 'Cosmos', symbol: 'ATOM', color: 'bg-gray-700', marketCapRank: 25 },
-    { ticker: 'LTC-USD', name: 'Litecoin', symbol: 'LTC', color: 'bg-gray-400', marketCapRank: 15 },
-    { ticker: 'TRX-USD', name: 'Tron', symbol: 'TRX', color: 'bg-red-600', marketCapRank: 16 },
+    { ticker: 'BTC-USD', name: 'Bitcoin', symbol: 'BTC', color: 'bg-orange-500', chartColor: '#f97316', marketCapRank: 1 },
+    { ticker: 'ETH-USD', name: 'Ethereum', symbol: 'ETH', color: 'bg-blue-600', chartColor: '#2563eb', marketCapRank: 2, stakingYield: 3.5 },
+    { ticker: 'BNB-USD', name: 'BNB', symbol: 'BNB', color: 'bg-yellow-500', chartColor: '#eab308', marketCapRank: 4 },
+    { ticker: 'SOL-USD', name: 'Solana', symbol: 'SOL', color: 'bg-purple-500', chartColor: '#a855f7', marketCapRank: 5, stakingYield: 7 },
+    { ticker: 'XRP-USD', name: 'Ripple', symbol: 'XRP', color: 'bg-black', chartColor: '#27272a', marketCapRank: 6 },
+    { ticker: 'DOGE-USD', name: 'Dogecoin', symbol: 'DOGE', color: 'bg-yellow-400', chartColor: '#facc15', marketCapRank: 8 },
+    { ticker: 'ADA-USD', name: 'Cardano', symbol: 'ADA', color: 'bg-blue-400', chartColor: '#60a5fa', marketCapRank: 10, stakingYield: 3 },
+    { ticker: 'AVAX-USD', name: 'Avalanche', symbol: 'AVAX', color: 'bg-red-500', chartColor: '#ef4444', marketCapRank: 11 },
+    { ticker: 'DOT-USD', name: 'Polkadot', symbol: 'DOT', color: 'bg-pink-500', chartColor: '#ec4899', marketCapRank: 12, stakingYield: 12 },
+    { ticker: 'MATIC-USD', name: 'Polygon', symbol: 'MATIC', color: 'bg-indigo-600', chartColor: '#4f46e5', marketCapRank: 13 },
+    { ticker: 'LINK-USD', name: 'Chainlink', symbol: 'LINK', color: 'bg-blue-500', chartColor: '#3b82f6', marketCapRank: 14 },
+    { ticker: 'UNI7083-USD', name: 'Uniswap', symbol: 'UNI', color: 'bg-pink-600', chartColor: '#db2777', marketCapRank: 20 },
+    { ticker: 'ATOM-USD', name: 'Cosmos', symbol: 'ATOM', color: 'bg-gray-700', chartColor: '#374151', marketCapRank: 25, stakingYield: 15 },
+    { ticker: 'LTC-USD', name: 'Litecoin', symbol: 'LTC', color: 'bg-gray-400', chartColor: '#9ca3af', marketCapRank: 15 },
+    { ticker: 'TRX-USD', name: 'Tron', symbol: 'TRX', color: 'bg-red-600', chartColor: '#dc2626', marketCapRank: 16 },
+    { ticker: 'USDC', name: 'USD Coin', symbol: 'USDC', color: 'bg-sky-500', chartColor: '#0ea5e9', marketCapRank: 7, isCash: true },
+    { ticker: 'USD', name: 'Cash', symbol: 'USD', color: 'bg-green-600', chartColor: '#16a34a', marketCapRank: 99, isCash: true },
 ];
 
 export function getAssetByTicker(ticker: string): CryptoAsset | undefined {
     return AVAILABLE_CRYPTO_ASSETS.find(a => a.ticker === ticker);
 }
+
+export function isCashAsset(ticker: string): boolean {
+    return getAssetByTicker(ticker)?.isCash === true;
+}
@@ -0,0 +1,83 @@
+import type { DailyData } from './finance';
+import type { PricePoint } from './market-data-cache';
+import type { DataQuality } from './types';
+
+export const JUMP_THRESHOLD = 0.8; // Daily moves beyond ±80% are flagged
+export const STALE_RUN_DAYS = 5; // This many consecutive identical prices are flagged
+export const GAP_WARNING_DAYS = 4; // Gaps longer than a long weekend are worth a warning
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/**
+ * Check each symbol's raw prices and how alignment filled them in.
+ * Jumps, stale runs and gaps are measured on the prices the provider actually returned; forward-filled
+ * days are counted on the aligned rows, so a stock in a crypto portfolio shows its weekends there.
+ * @param series - Raw prices per symbol, sorted by date
+ * @param alignedData - The same prices after alignMarketData
+ * @param errors - Upstream error per symbol whose fetch failed
+ */
+export function assessDataQuality(
+    series: { [symbol: string]: PricePoint[] },
+    alignedData: DailyData[],
+    symbols: string[],
+    errors: { [symbol: string]: string | undefined } = {}
+): { [symbol: string]: DataQuality } {
+    const report: { [symbol: string]: DataQuality } = {};
+
+    symbols.forEach(symbol => {
+        const prices = series[symbol] ?? [];
+        const jumps: DataQuality['jumps'] = [];
+        const staleRuns: DataQuality['staleRuns'] = [];
+        let longestGapDays = 0;
+        let runStart = 0;
+
+        prices.forEach((point, i) => {
+            if (i === 0) return;
+            const prev = prices[i - 1];
+            const change = point.price / prev.price - 1;
+            if (Math.abs(change) > JUMP_THRESHOLD) jumps.push({ date: point.date, change });
+
+            const gap = (new Date(point.date).getTime() - new Date(prev.date).getTime()) / DAY_MS - 1;
+            if (gap > longestGapDays) longestGapDays = gap;
+
+            if (point.price !== prev.price) runStart = i;
+            // Record a run once, when it ends (a price change or the end of the series)
+            const runEnds = i === prices.length - 1 || prices[i + 1].price !== point.price;
+            if (runEnds && i - runStart + 1 >= STALE_RUN_DAYS) {
+                staleRuns.push({ startDate: prices[runStart].date, endDate: point.date, days: i - runStart + 1 });
+            }
+        });
+
+        const firstDate = prices.length > 0 ? prices[0].date : null;
+        const actualDates = new Set(prices.map(point => point.date));
+        const forwardFilledDays = firstDate === null ? 0 : alignedData.filter(day =>
+            day.date > firstDate && !actualDates.has(day.date) && (day[symbol] as number) > 0
+        ).length;
+
+        report[symbol] = {
+            symbol,
+            firstDate,
+            lastDate: prices.length > 0 ? prices[prices.length - 1].date : null,
+            forwardFilledDays,
+            longestGapDays,
+            jumps,
+            staleRuns,
+            fetchFailed: errors[symbol] !== undefined,
+            error: errors[symbol]
+        };
+    });
+
+    return report;
+}
+
+/**
+ * Whether a symbol's data deserves a warning: a failed fetch, no prices at all, jumps, stale runs
+ * or a gap longer than a long weekend.
+ */
+export function hasDataQualityIssues(quality: DataQuality): boolean {
+    return quality.fetchFailed ||
+        quality.firstDate === null ||
+        quality.jumps.length > 0 ||
+        quality.staleRuns.length > 0 ||
+        quality.longestGapDays > GAP_WARNING_DAYS;
+}
@@ -1,5 +1,9 @@
-import type { Metrics, DailyData } from './finance';
-import type { MonthlyPerformance } from './types';
+import type { BenchmarkMetrics, CorrelationMatrix, Metrics, DailyData, DrawdownEpisode, LedgerEntry } from './finance';
+import type { RiskReport } from './risk';
+import type { AttributionReport } from './attribution';
+import { DEFAULT_BENCHMARKS, getBenchmarkByTicker } from './benchmarks';
+import { getAssetByTicker, isCashAsset } from './crypto-assets';
+import type { CashFlowSchedule, CashYield, MonthlyPerformance, PreListingPolicy, RebalanceAnchor, RebalanceBands, TransactionCosts, WeightingScheme } from './types';
 
 interface ExportData {
     portfolioName?: string;
@@ -11,6 +15,23 @@ interface ExportData {
     metrics: Metrics;
     marketData: DailyData[];
     rebalanceFrequency: string;
+    rebalanceBands?: RebalanceBands;
+    rebalanceAnchor?: RebalanceAnchor;
+    transactionCosts?: TransactionCosts;
+    totalCosts?: number;
+    cashFlowSchedule?: CashFlowSchedule;
+    preListingPolicy?: PreListingPolicy;
+    cashYield?: CashYield;
+    compoundStakingYield?: boolean;
+    weightingScheme?: WeightingScheme;
+    weightingLookbackDays?: number;
+    ledger?: LedgerEntry[];
+    riskReport?: RiskReport;
+    drawdownEpisodes?: DrawdownEpisode[];
+    correlationMatrix?: CorrelationMatrix;
+    attribution?: AttributionReport;
+    benchmarks?: string[]; // Benchmark tickers included in marketData
+    benchmarkComparisons?: { name: string; metrics?: BenchmarkMetrics }[];
 }
 
 /**
@@ -54,7 +75,24 @@ export function generateCSV(data: ExportData): string {
         weights,
         metrics,
         marketData,
-        rebalanceFrequency
+        rebalanceFrequency,
+        rebalanceBands,
+        rebalanceAnchor,
+        transactionCosts,
+        totalCosts,
+        cashFlowSchedule,
+        preListingPolicy,
+        cashYield,
+        compoundStakingYield,
+        weightingScheme,
+        weightingLookbackDays,
+        ledger,
+        riskReport,
+        drawdownEpisodes,
+        correlationMatrix,
+        attribution,
+        benchmarks = DEFAULT_BENCHMARKS,
+        benchmarkComparisons
     } = data;
 
     // ============================================
@@ -67,6 +105,47 @@ export function generateCSV(data: ExportData): string {
     lines.push(`End Date,${endDate}`);
     lines.push(`Initial Investment,${formatCurrency(initialInvestment, 0)}`);
     lines.push(`Rebalancing Strategy,${rebalanceFrequency}`);
+    if (weightingScheme && weightingScheme !== 'manual') {
+        const usesLookback = weightingScheme === 'inverse-volatility' || weightingScheme === 'risk-parity';
+        lines.push(`Weighting,${weightingScheme}${usesLookback && weightingLookbackDays ? ` (${weightingLookbackDays}-day lookback)` : ''}`);
+    }
+    if (cashYield && selectedAssets.some(isCashAsset)) {
+        lines.push(`Cash Yield,${cashYield.source === 'risk-free' ? 'Risk-free rate' : `${formatNumber(cashYield.apy)}% APY`}`);
+    }
+    if (compoundStakingYield) {
+        const staked = selectedAssets
+            .filter(asset => getAssetByTicker(asset)?.stakingYield)
+            .map(asset => `${asset.replace('-USD', '')} ${getAssetByTicker(asset)?.stakingYield}%`);
+        lines.push(`Staking Rewards,${escapeCSV(staked.length > 0 ? `Compounded (${staked.join(' ')})` : 'Compounded')}`);
+    }
+    if (preListingPolicy) {
+        lines.push(`Pre-listing Policy,${preListingPolicy}`);
+    }
+    if (rebalanceAnchor) {
+        const anchorLabel = rebalanceAnchor.type === 'day-of-month'
+            ? `day ${rebalanceAnchor.dayOfMonth ?? 1} of period`
+            : rebalanceAnchor.type;
+        lines.push(`Rebalance Anchor,${anchorLabel}`);
+    }
+    if (rebalanceBands) {
+        lines.push(`Rebalance Band (Absolute),${formatNumber(rebalanceBands.absolute)} pp`);
+        lines.push(`Rebalance Band (Relative),${formatNumber(rebalanceBands.relative)}%`);
+    }
+    if (transactionCosts) {
+        lines.push(`Trading Fee,${formatNumber(transactionCosts.percentageFee)}%`);
+        lines.push(`Fixed Fee per Trade,${formatCurrency(transactionCosts.fixedFee)}`);
+        lines.push(`Slippage (bps),${formatNumber(transactionCosts.slippageBps, 0)}`);
+    }
+    if (totalCosts !== undefined) {
+        lines.push(`Total Transaction Costs,${formatCurrency(totalCosts)}`);
+    }
+    if (cashFlowSchedule && cashFlowSchedule.frequency !== 'none') {
+        lines.push(`Recurring Cash Flow,${escapeCSV(`${cashFlowSchedule.type} of ${formatCurrency(cashFlowSchedule.amount)} (${cashFlowSchedule.frequency})`)}`);
+        lines.push(`Cash Flow Allocation,${cashFlowSchedule.allocation}`);
+        if (cashFlowSchedule.frequency === 'custom') {
+            lines.push(`Cash Flow Dates,${escapeCSV((cashFlowSchedule.customDates || []).join(' '))}`);
+        }
+    }
     lines.push('');
     lines.push('Asset Allocation:');
     lines.push('Asset,Weight (%)');
@@ -84,15 +163,107 @@ export function generateCSV(data: ExportData): string {
     lines.push('');
     lines.push('Metric,Value');
     lines.push(`Final Balance,${formatCurrency(metrics.finalBalance)}`);
+    if (metrics.netInvested !== undefined) {
+        lines.push(`Net Invested,${formatCurrency(metrics.netInvested)}`);
+    }
     lines.push(`Total Return,${formatNumber(metrics.totalReturn * 100)}%`);
     lines.push(`Annualized Return (CAGR),${formatNumber(metrics.cagr * 100)}%`);
     lines.push(`Sharpe Ratio (3% RFR),${formatNumber(metrics.sharpeRatio)}`);
     lines.push(`Volatility (Annualized),${formatNumber(metrics.volatility * 100)}%`);
-    lines.push(`S&P 500 Correlation,${metrics.sp500Correlation !== undefined ? formatNumber(metrics.sp500Correlation) : 'N/A'}`);
+    lines.push(`Downside Deviation (Annualized),${formatNumber(metrics.downsideDeviation * 100)}%`);
+    lines.push(`Sortino Ratio (3% MAR),${formatNumber(metrics.sortinoRatio)}`);
+    lines.push(`Calmar Ratio,${formatNumber(metrics.calmarRatio)}`);
+    lines.push(`Omega Ratio (3% MAR),${formatNumber(metrics.omegaRatio)}`);
+    lines.push(`Ulcer Index,${formatNumber(metrics.ulcerIndex * 100)}%`);
+    lines.push(`Martin Ratio,${formatNumber(metrics.martinRatio)}`);
     lines.push(`Max Drawdown,${formatNumber(metrics.maxDrawdown * 100)}%`);
     lines.push(`Best Day,${formatNumber(metrics.bestDay * 100)}%`);
     lines.push(`Worst Day,${formatNumber(metrics.worstDay * 100)}%`);
     lines.push('');
+
+    if (benchmarkComparisons && benchmarkComparisons.length > 0) {
+        lines.push('Benchmark Comparison:');
+        lines.push("Benchmark,Correlation,Beta,Jensen's Alpha (%),Tracking Error (%),Information Ratio,Up Capture (%),Down Capture (%)");
+        benchmarkComparisons.forEach(({ name, metrics: relative }) => {
+            if (!relative) {
+                lines.push(`${escapeCSV(name)},N/A,N/A,N/A,N/A,N/A,N/A,N/A`);
+                return;
+            }
+            lines.push([
+                escapeCSV(name),
+                formatNumber(relative.correlation),
+                formatNumber(relative.beta),
+                formatNumber(relative.alpha * 100),
+                formatNumber(relative.trackingError * 100),
+                formatNumber(relative.informationRatio),
+                formatNumber(relative.upCapture * 100),
+                formatNumber(relative.downCapture * 100)
+            ].join(','));
+        });
+        lines.push('');
+    }
+
+    if (riskReport && riskReport.estimates.length > 0) {
+        lines.push('Value at Risk:');
+        lines.push('Method,Confidence,Horizon (Days),VaR (%),VaR ($),CVaR (%),CVaR ($)');
+        riskReport.estimates.forEach(estimate => {
+            lines.push([
+                estimate.method,
+                `${formatNumber(estimate.confidence * 100, 0)}%`,
+                estimate.horizonDays,
+                `${formatNumber(estimate.valueAtRisk * 100)}%`,
+                formatCurrency(estimate.valueAtRiskAmount),
+                `${formatNumber(estimate.expectedShortfall * 100)}%`,
+                formatCurrency(estimate.expectedShortfallAmount)
+            ].join(','));
+        });
+        lines.push('');
+    }
+
+    if (drawdownEpisodes && drawdownEpisodes.length > 0) {
+        lines.push('Worst Drawdowns:');
+        lines.push('Depth (%),Peak,Trough,Recovery,Decline (Days),Recovery (Days)');
+        drawdownEpisodes.forEach(episode => {
+            lines.push([
+                `-${formatNumber(episode.depth * 100)}%`,
+                episode.peakDate,
+                episode.troughDate,
+                episode.recoveryDate ?? 'Not recovered',
+                episode.declineDays,
+                episode.recoveryDays ?? ''
+            ].join(','));
+        });
+        lines.push('');
+    }
+
+    if (attribution && attribution.assets.length > 0) {
+        lines.push('Attribution:');
+        lines.push('Asset,Return Contribution (%),Weight (%),Marginal Risk (%),Risk Contribution (%),Risk Share (%)');
+        attribution.assets.forEach(asset => {
+            lines.push([
+                escapeCSV(asset.ticker),
+                formatNumber(asset.returnContribution * 100),
+                formatNumber(asset.weight * 100),
+                formatNumber(asset.marginalRisk * 100),
+                formatNumber(asset.riskContribution * 100),
+                formatNumber(asset.riskShare * 100)
+            ].join(','));
+        });
+        lines.push(`Other (cash yield & costs),${formatNumber(attribution.residualReturn * 100)}`);
+        lines.push('');
+    }
+
+    if (correlationMatrix && correlationMatrix.tickers.length >= 2) {
+        lines.push('Correlation Matrix:');
+        lines.push(['', ...correlationMatrix.tickers.map(escapeCSV)].join(','));
+        correlationMatrix.tickers.forEach((ticker, row) => {
+            lines.push([
+                escapeCSV(ticker),
+                ...correlationMatrix.correlations[row].map(correlation => correlation !== null ? formatNumber(correlation) : '')
+            ].join(','));
+        });
+        lines.push('');
+    }
     lines.push('');
 
     // ============================================
@@ -122,24 +293,56 @@ export function generateCSV(data: ExportData): string {
     lines.push('');
 
     // ============================================
-    // TAB 4: DAILY CLOSING PRICES
+    // TAB 4: TRADE LEDGER
+    // ============================================
+    if (ledger) {
+        lines.push('=== TRADE LEDGER ===');
+        lines.push('');
+        if (ledger.length > 0) {
+            lines.push('Date,Asset,Side,Units,Price,Notional,Fee,Reason');
+            ledger.forEach(trade => {
+                lines.push([
+                    trade.date,
+                    trade.ticker.replace('-USD', ''),
+                    trade.side,
+                    formatNumber(trade.units, 8),
+                    formatCurrency(trade.price, 4),
+                    formatCurrency(trade.notional),
+                    formatCurrency(trade.fee, 4),
+                    trade.reason
+                ].join(','));
+            });
+        } else {
+            lines.push('No trades');
+        }
+        lines.push('');
+        lines.push('');
+    }
+
+    // ============================================
+    // TAB 5: DAILY CLOSING PRICES
     // ============================================
     lines.push('=== DAILY CLOSING PRICES ===');
     lines.push('');
 
-    // Header row with all assets
-    const priceHeaders = ['Date', ...selectedAssets.map(a => a.replace('-USD', '')), '^GSPC (S&P 500)'];
+    // Header row with all assets (cash sleeves have no market prices)
+    const pricedAssets = selectedAssets.filter(asset => !isCashAsset(asset));
+    const priceHeaders = [
+        'Date',
+        ...pricedAssets.map(a => a.replace('-USD', '')),
+        ...benchmarks.map(ticker => escapeCSV(`${ticker} (${getBenchmarkByTicker(ticker)?.name ?? 'Benchmark'})`))
+    ];
     lines.push(priceHeaders.join(','));
 
     // Data rows
     marketData.forEach(day => {
         const row = [
             day.date,
-            ...selectedAssets.map(asset => {
+            ...pricedAssets.map(asset => {
                 const price = day[asset] as number;
                 return price ? price.toFixed(2) : '0';
             }),
-            (day['^GSPC'] as number)?.toFixed(2) || ''
+            ...benchmarks.map(ticker => (day[ticker] as number)?.toFixed(2) || '')
         ];
         lines.push(row.join(','));
     });
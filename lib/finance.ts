@@ -1,4 +1,5 @@
-import type { MonthlyStats, MonthlyPerformance, AssetValidation, RebalanceFrequency } from './types';
+import { getAssetByTicker, isCashAsset } from './crypto-assets';
+import type { CashYield, MonthlyStats, MonthlyPerformance, AssetValidation, RebalanceFrequency, ReturnFrequency, RebalanceAnchor, RebalanceBands, TransactionCosts, CashFlowSchedule, PreListingPolicy } from './types';
 
 export interface DailyData {
     date: string;
@@ -15,12 +16,105 @@ export interface Metrics {
     bestDay: number;
     worstDay: number;
     maxDrawdown: number;
+    downsideDeviation: number; // Annualized, below the minimum acceptable return
+    sortinoRatio: number;
+    calmarRatio: number; // CAGR / max drawdown
+    omegaRatio: number; // Gains over losses relative to the minimum acceptable return
+    ulcerIndex: number; // RMS of daily drawdowns (fraction)
+    martinRatio: number; // Excess CAGR / Ulcer Index
     monthlyStats?: MonthlyStats;
-    sp500Correlation?: number;
+    benchmarkMetrics?: { [ticker: string]: BenchmarkMetrics }; // Keyed by benchmark ticker (e.g., "^GSPC")
+    netInvested?: number; // Initial investment plus contributions minus withdrawals
+}
+
+// External cash moved into (positive) or out of (negative) the portfolio on a given date
+export interface CashFlow {
+    date: string;
+    amount: number;
+}
+
+// Computes target weights (percentages summing to 100) over the given tickers from the prices up to
+// and including a rebalance day. Tickers it leaves out get 0.
+export type WeightingFunction = (history: DailyData[], tickers: string[]) => { [ticker: string]: number };
+
+export interface SimulationOptions {
+    transactionCosts?: TransactionCosts;
+    cashFlowSchedule?: CashFlowSchedule;
+    // With 'threshold' the bands are checked daily; with a calendar frequency they are only
+    // checked on calendar rebalance dates (hybrid), and a rebalance happens only if breached
+    rebalanceBands?: RebalanceBands;
+    rebalanceAnchor?: RebalanceAnchor;
+    preListingPolicy?: PreListingPolicy;
+    cashYield?: CashYield;
+    compoundStakingYield?: boolean; // Accrue each asset's stakingYield as additional units
+    recordLedger?: boolean; // Also return every trade and the daily holdings
+    weighting?: WeightingFunction; // Rule-based targets instead of the static weights
+    weightingHistory?: DailyData[]; // Prices before the first day, so the rule's lookback is full from day 0
+}
+
+export type TradeReason = 'initial' | 'rebalance' | 'listing' | 'contribution' | 'withdrawal';
+
+export interface LedgerEntry {
+    date: string;
+    ticker: string;
+    side: 'buy' | 'sell';
+    units: number; // Always positive; direction is given by side
+    price: number;
+    notional: number; // units × price, before fees
+    fee: number; // Share of the trade's fees and slippage
+    reason: TradeReason;
+}
+
+export interface DailyHoldings {
+    date: string;
+    units: { [ticker: string]: number };
+    weights: { [ticker: string]: number }; // Fractions of the total portfolio value
+    cash: number; // Sleeves of not-yet-listed assets held as cash ('cash' policy)
+}
+
+export interface PortfolioHistory {
+    values: { date: string; value: number }[];
+    totalCosts: number; // Fees and slippage paid across all trades
+    cashFlows: CashFlow[]; // Contributions / withdrawals actually applied
+    ledger?: LedgerEntry[]; // Only with recordLedger
+    holdings?: DailyHoldings[]; // Only with recordLedger
+    targetHistory?: { date: string; weights: { [ticker: string]: number } }[]; // Only with a weighting rule
 }
 
 export const ANNUAL_RISK_FREE_RATE = 0.03; // 3% Risk-Free Rate
 
+export const DEFAULT_TRANSACTION_COSTS: TransactionCosts = {
+    percentageFee: 0,
+    fixedFee: 0,
+    slippageBps: 0,
+};
+
+export const DEFAULT_CASH_FLOW_SCHEDULE: CashFlowSchedule = {
+    type: 'contribution',
+    amount: 0,
+    frequency: 'none',
+    allocation: 'target-weights',
+};
+
+export const DEFAULT_REBALANCE_BANDS: RebalanceBands = {
+    absolute: 5,
+    relative: 0,
+};
+
+export const DEFAULT_REBALANCE_ANCHOR: RebalanceAnchor = {
+    type: 'first-trading-day',
+};
+
+export const DEFAULT_PRE_LISTING_POLICY: PreListingPolicy = 'cash';
+
+export const DEFAULT_CASH_YIELD: CashYield = {
+    source: 'fixed',
+    apy: 0,
+};
+
+// Trades smaller than a cent are treated as no-ops so the fixed fee isn't charged on rounding noise
+const MIN_TRADE_NOTIONAL = 0.01;
+
 export function validateAssetsForDateRange(
     historicalData: DailyData[],
     weights: { [ticker: string]: number }
@@ -38,9 +132,14 @@ export function validateAssetsForDateRange(
     const invalidAssets: string[] = [];
     const validAssets: string[] = [];
 
+    // Cash sleeves have no market data and are always available
+    const marketTickers = Object.keys(weights).filter(ticker => !isCashAsset(ticker));
+
     Object.keys(weights).forEach(ticker => {
         const price = firstDay[ticker] as number;
-        if (!price || price <= 0) {
+        if (isCashAsset(ticker)) {
+            validAssets.push(ticker);
+        } else if (!price || price <= 0) {
             invalidAssets.push(ticker);
         } else {
             validAssets.push(ticker);
@@ -50,7 +149,7 @@ export function validateAssetsForDateRange(
     // Find earliest date when all selected assets are available
     let earliestValidDate = '';
     for (const day of historicalData) {
-        const allValid = Object.keys(weights).every(ticker => {
+        const allValid = marketTickers.every(ticker => {
             const price = day[ticker] as number;
             return price && price > 0;
         });
@@ -68,11 +167,186 @@ export function validateAssetsForDateRange(
     };
 }
 
+/**
+ * Strip external cash flows out of a value series so that only investment performance remains.
+ * Each day's return is measured net of that day's flow (time-weighted), and the returns are
+ * chained into an index that starts at the Day 0 value. Without flows the series is unchanged.
+ */
+export function calculateTimeWeightedValues(
+    portfolioValues: { date: string; value: number }[],
+    cashFlows: CashFlow[] = []
+): { date: string; value: number }[] {
+    if (cashFlows.length === 0 || portfolioValues.length === 0) return portfolioValues;
+
+    const flowsByDate: Record<string, number> = {};
+    cashFlows.forEach(f => {
+        flowsByDate[f.date] = (flowsByDate[f.date] || 0) + f.amount;
+    });
+
+    const results: { date: string; value: number }[] = [];
+    let indexValue = portfolioValues[0].value - (flowsByDate[portfolioValues[0].date] || 0);
+    results.push({ date: portfolioValues[0].date, value: indexValue });
+
+    for (let i = 1; i < portfolioValues.length; i++) {
+        const prevValue = portfolioValues[i - 1].value;
+        const flow = flowsByDate[portfolioValues[i].date] || 0;
+        if (prevValue > 0) {
+            indexValue *= (portfolioValues[i].value - flow) / prevValue;
+        } else if (indexValue <= 0) {
+            // Not yet funded (e.g. DCA from $0): start the index at the first funded value
+            indexValue = portfolioValues[i].value;
+        }
+        // Otherwise the portfolio has been fully withdrawn and the index holds its last level
+        results.push({ date: portfolioValues[i].date, value: indexValue });
+    }
+
+    return results;
+}
+
+// Returns of the portfolio and a benchmark over matching periods, plus how many periods make a year
+interface AlignedReturns {
+    portfolioReturns: number[];
+    benchmarkReturns: number[];
+    periodsPerYear: number;
+}
+
+// Helper to pair portfolio returns with benchmark returns. A 24/7 crypto portfolio is compared
+// against a 5-day market by mapping each portfolio date to the benchmark's nearest previous trading
+// day: weekly returns first, falling back to daily alignment when the range is too short.
+function alignBenchmarkReturns(
+    performanceValues: { date: string; value: number }[],
+    benchmarkData: { date: string; value: number }[]
+): AlignedReturns | null {
+    if (benchmarkData.length < 2 || performanceValues.length < 2) return null;
+
+    // Build a map of benchmark values by date for alignment
+    const benchmarkByDate: Record<string, number> = {};
+    const benchmarkDates: string[] = []; // Sorted list of dates with benchmark data
+    benchmarkData.forEach(d => {
+        if (d.value && d.value > 0) {
+            benchmarkByDate[d.date] = d.value;
+            benchmarkDates.push(d.date);
+        }
+    });
+    benchmarkDates.sort();
+
+    // Portfolio values by date, so returns can be measured between the same days as the benchmark's
+    const portfolioByDate: Record<string, number> = {};
+    performanceValues.forEach(d => {
+        portfolioByDate[d.date] = d.value;
+    });
+
+    // Helper function to find nearest previous trading day
+    const findNearestBenchmarkDate = (targetDate: string): string | null => {
+        // First check exact match
+        if (benchmarkByDate[targetDate]) {
+            return targetDate;
+        }
+        // Find the most recent date before targetDate
+        let nearestDate: string | null = null;
+        for (let i = benchmarkDates.length - 1; i >= 0; i--) {
+            if (benchmarkDates[i] <= targetDate) {
+                nearestDate = benchmarkDates[i];
+                break;
+            }
+        }
+        return nearestDate;
+    };
+
+    const daysBetween = (from: string, to: string) =>
+        (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 3600 * 24);
+
+    // Calculate weekly returns to ensure we capture benchmark trading days
+    // Group portfolio values by week and calculate weekly returns
+    const weeklyPortfolioReturns: number[] = [];
+    const weeklyBenchmarkReturns: number[] = [];
+    let weeklySpanDays = 0;
+
+    // Use a sliding window approach - compare every 5-7 days
+    const stepSize = 5; // Approximately weekly
+    for (let i = stepSize; i < performanceValues.length; i += stepSize) {
+        const currDate = performanceValues[i].date;
+        const prevDate = performanceValues[i - stepSize].date;
+
+        const currBenchmarkDate = findNearestBenchmarkDate(currDate);
+        const prevBenchmarkDate = findNearestBenchmarkDate(prevDate);
+
+        if (currBenchmarkDate && prevBenchmarkDate && currBenchmarkDate !== prevBenchmarkDate &&
+            portfolioByDate[prevBenchmarkDate] > 0 && portfolioByDate[currBenchmarkDate] !== undefined) {
+            const portfolioReturn = (portfolioByDate[currBenchmarkDate] / portfolioByDate[prevBenchmarkDate]) - 1;
+            const benchmarkReturn = (benchmarkByDate[currBenchmarkDate] / benchmarkByDate[prevBenchmarkDate]) - 1;
+
+            weeklyPortfolioReturns.push(portfolioReturn);
+            weeklyBenchmarkReturns.push(benchmarkReturn);
+            weeklySpanDays += daysBetween(prevBenchmarkDate, currBenchmarkDate);
+        }
+    }
+
+    // Use weekly returns if we have enough data points (at least 10 weeks)
+    if (weeklyPortfolioReturns.length >= 10) {
+        return {
+            portfolioReturns: weeklyPortfolioReturns,
+            benchmarkReturns: weeklyBenchmarkReturns,
+            periodsPerYear: 365 * weeklyPortfolioReturns.length / weeklySpanDays
+        };
+    }
+
+    // Fallback: try daily alignment with nearest date lookup
+    const alignedPortfolioReturns: number[] = [];
+    const alignedBenchmarkReturns: number[] = [];
+    let alignedSpanDays = 0;
+
+    let lastValidBenchmarkDate: string | null = null;
+    let lastValidBenchmarkValue: number | null = null;
+    let lastPortfolioValue: number | null = null;
+    let lastPortfolioDate: string | null = null;
+
+    for (let i = 0; i < performanceValues.length; i++) {
+        const currDate = performanceValues[i].date;
+        const currBenchmarkDate = findNearestBenchmarkDate(currDate);
+
+        // Days that map to the same trading day as the previous point (weekends, holidays) are skipped,
+        // so each portfolio return spans the same dates as its benchmark return
+        if (currBenchmarkDate && benchmarkByDate[currBenchmarkDate] && currBenchmarkDate !== lastValidBenchmarkDate) {
+            const currBenchmarkValue = benchmarkByDate[currBenchmarkDate];
+
+            // Only calculate return if we have a previous valid point
+            if (lastValidBenchmarkDate && lastValidBenchmarkValue && lastPortfolioValue && lastPortfolioDate) {
+                const portfolioReturn = (performanceValues[i].value / lastPortfolioValue) - 1;
+                const benchmarkReturn = (currBenchmarkValue / lastValidBenchmarkValue) - 1;
+
+                alignedPortfolioReturns.push(portfolioReturn);
+                alignedBenchmarkReturns.push(benchmarkReturn);
+                alignedSpanDays += daysBetween(lastPortfolioDate, currDate);
+            }
+
+            lastValidBenchmarkDate = currBenchmarkDate;
+            lastValidBenchmarkValue = currBenchmarkValue;
+            lastPortfolioValue = performanceValues[i].value;
+            lastPortfolioDate = currDate;
+        }
+    }
+
+    if (alignedPortfolioReturns.length >= 20) {
+        return {
+            portfolioReturns: alignedPortfolioReturns,
+            benchmarkReturns: alignedBenchmarkReturns,
+            periodsPerYear: 365 * alignedPortfolioReturns.length / alignedSpanDays
+        };
+    }
+
+    return null;
+}
+
 export function calculateMetrics(
     portfolioValues: { date: string; value: number }[],
     initialInvestment: number,
-    sp500Data?: { date: string; value: number }[]
+    benchmarkData?: { [ticker: string]: { date: string; value: number }[] },
+    cashFlows: CashFlow[] = [],
+    minimumAcceptableReturn: number = ANNUAL_RISK_FREE_RATE // Annual hurdle for Sortino and Omega
 ): Metrics {
+    const netInvested = initialInvestment + cashFlows.reduce((sum, f) => sum + f.amount, 0);
+
     if (portfolioValues.length < 2) {
         return {
             initialInvestment,
@@ -84,24 +358,40 @@ export function calculateMetrics(
             bestDay: 0,
             worstDay: 0,
             maxDrawdown: 0,
+            downsideDeviation: 0,
+            sortinoRatio: 0,
+            calmarRatio: 0,
+            omegaRatio: 0,
+            ulcerIndex: 0,
+            martinRatio: 0,
+            netInvested,
         };
     }
 
     const finalBalance = portfolioValues[portfolioValues.length - 1].value;
-    const totalReturn = (finalBalance - initialInvestment) / initialInvestment;
+
+    // Return-based statistics use the flow-neutral series so contributions don't count as gains
+    const performanceValues = calculateTimeWeightedValues(portfolioValues, cashFlows);
+    const finalPerformanceValue = performanceValues[performanceValues.length - 1].value;
+    // A pure DCA plan can start from $0, in which case returns are measured from the first funded value
+    const baseValue = initialInvestment > 0
+        ? initialInvestment
+        : performanceValues.find(v => v.value > 0)?.value ?? 0;
+    const totalReturn = baseValue > 0 ? (finalPerformanceValue - baseValue) / baseValue : 0;
 
     // Time period in years
-    const startDate = new Date(portfolioValues[0].date);
-    const endDate = new Date(portfolioValues[portfolioValues.length - 1].date);
+    const startDate = new Date(performanceValues[0].date);
+    const endDate = new Date(performanceValues[performanceValues.length - 1].date);
     const years = (endDate.getTime() - startDate.getTime()) / (1000 * 3600 * 24 * 365);
 
     // CAGR
-    const cagr = years > 0 ? Math.pow(finalBalance / initialInvestment, 1 / years) - 1 : 0;
+    const cagr = years > 0 && baseValue > 0 ? Math.pow(finalPerformanceValue / baseValue, 1 / years) - 1 : 0;
 
     // Daily Returns
     const dailyReturns: number[] = [];
-    for (let i = 1; i < portfolioValues.length; i++) {
-        const r = (portfolioValues[i].value / portfolioValues[i - 1].value) - 1;
+    for (let i = 1; i < performanceValues.length; i++) {
+        if (performanceValues[i - 1].value <= 0) continue; // Not yet funded
+        const r = (performanceValues[i].value / performanceValues[i - 1].value) - 1;
         dailyReturns.push(r);
     }
 
@@ -121,116 +411,55 @@ export function calculateMetrics(
     const bestDay = Math.max(...dailyReturns);
     const worstDay = Math.min(...dailyReturns);
 
-    // Calculate Max Drawdown
+    // Downside Deviation / Sortino Ratio
+    // Only returns below the daily equivalent of the minimum acceptable return count as risk
+    const dailyMar = Math.pow(1 + minimumAcceptableReturn, 1 / 365) - 1;
+    const downsideVariance = dailyReturns.reduce((a, r) => a + Math.pow(Math.min(0, r - dailyMar), 2), 0) / dailyReturns.length;
+    const downsideDeviation = Math.sqrt(downsideVariance) * Math.sqrt(365);
+    const sortinoRatio = downsideDeviation !== 0 ? (cagr - minimumAcceptableReturn) / downsideDeviation : 0;
+
+    // Omega Ratio
+    // Omega = Sum of gains above MAR / Sum of shortfalls below MAR
+    const gainsAboveMar = dailyReturns.reduce((a, r) => a + Math.max(0, r - dailyMar), 0);
+    const lossesBelowMar = dailyReturns.reduce((a, r) => a + Math.max(0, dailyMar - r), 0);
+    const omegaRatio = lossesBelowMar !== 0 ? gainsAboveMar / lossesBelowMar : 0;
+
+    // Calculate Max Drawdown and Ulcer Index
+    // Ulcer Index = sqrt(mean(drawdown^2)) across every day, so long shallow slumps count too
     let maxDrawdown = 0;
-    let peak = portfolioValues[0].value;
+    let peak = performanceValues[0].value;
+    let sumSquaredDrawdowns = 0;
+    let drawdownDays = peak > 0 ? 1 : 0;
 
-    for (let i = 1; i < portfolioValues.length; i++) {
-        const currentValue = portfolioValues[i].value;
+    for (let i = 1; i < performanceValues.length; i++) {
+        const currentValue = performanceValues[i].value;
         if (currentValue > peak) {
             peak = currentValue;
-        } else {
+        } else if (peak > 0) {
             const drawdown = (peak - currentValue) / peak;
             maxDrawdown = Math.max(maxDrawdown, drawdown);
+            sumSquaredDrawdowns += drawdown * drawdown;
         }
+        if (peak > 0) drawdownDays++;
     }
 
-    // Calculate S&P 500 correlation if data is provided
-    let sp500Correlation: number | undefined;
-    if (sp500Data && sp500Data.length > 1 && portfolioValues.length > 1) {
-        // Build a map of S&P 500 values by date for alignment
-        const sp500ByDate: Record<string, number> = {};
-        const sp500Dates: string[] = []; // Sorted list of dates with S&P 500 data
-        sp500Data.forEach(d => {
-            if (d.value && d.value > 0) {
-                sp500ByDate[d.date] = d.value;
-                sp500Dates.push(d.date);
-            }
-        });
-        sp500Dates.sort();
-
-        // Helper function to find nearest previous trading day
-        const findNearestSp500Date = (targetDate: string): string | null => {
-            // First check exact match
-            if (sp500ByDate[targetDate]) {
-                return targetDate;
-            }
-            // Find the most recent date before targetDate
-            let nearestDate: string | null = null;
-            for (let i = sp500Dates.length - 1; i >= 0; i--) {
-                if (sp500Dates[i] <= targetDate) {
-                    nearestDate = sp500Dates[i];
-                    break;
-                }
-            }
-            return nearestDate;
-        };
-
-        // Calculate weekly returns to ensure we capture S&P 500 trading days
-        // Group portfolio values by week and calculate weekly returns
-        const weeklyPortfolioReturns: number[] = [];
-        const weeklySp500Returns: number[] = [];
-
-        // Use a sliding window approach - compare every 5-7 days
-        const stepSize = 5; // Approximately weekly
-        for (let i = stepSize; i < portfolioValues.length; i += stepSize) {
-            const currDate = portfolioValues[i].date;
-            const prevDate = portfolioValues[i - stepSize].date;
-
-            const currSp500Date = findNearestSp500Date(currDate);
-            const prevSp500Date = findNearestSp500Date(prevDate);
+    const ulcerIndex = drawdownDays > 0 ? Math.sqrt(sumSquaredDrawdowns / drawdownDays) : 0;
 
-            if (currSp500Date && prevSp500Date && currSp500Date !== prevSp500Date) {
-                const portfolioReturn = (portfolioValues[i].value / portfolioValues[i - stepSize].value) - 1;
-                const sp500Return = (sp500ByDate[currSp500Date] / sp500ByDate[prevSp500Date]) - 1;
+    // Calmar Ratio = CAGR / Max Drawdown; Martin Ratio = (CAGR - Rf) / Ulcer Index
+    const calmarRatio = maxDrawdown !== 0 ? cagr / maxDrawdown : 0;
+    const martinRatio = ulcerIndex !== 0 ? (cagr - ANNUAL_RISK_FREE_RATE) / ulcerIndex : 0;
 
-                weeklyPortfolioReturns.push(portfolioReturn);
-                weeklySp500Returns.push(sp500Return);
-            }
-        }
-
-        // Calculate correlation if we have enough data points (at least 10 weeks)
-        if (weeklyPortfolioReturns.length >= 10) {
-            sp500Correlation = calculateCorrelation(weeklyPortfolioReturns, weeklySp500Returns);
-        } else {
-            // Fallback: try daily alignment with nearest date lookup
-            const alignedPortfolioReturns: number[] = [];
-            const alignedSp500Returns: number[] = [];
-
-            let lastValidSp500Date: string | null = null;
-            let lastValidSp500Value: number | null = null;
-            let lastPortfolioValue: number | null = null;
-
-            for (let i = 0; i < portfolioValues.length; i++) {
-                const currDate = portfolioValues[i].date;
-                const currSp500Date = findNearestSp500Date(currDate);
-
-                if (currSp500Date && sp500ByDate[currSp500Date]) {
-                    const currSp500Value = sp500ByDate[currSp500Date];
-
-                    // Only calculate return if we have a previous valid point and dates are different
-                    if (lastValidSp500Date && lastValidSp500Value && lastPortfolioValue &&
-                        currSp500Date !== lastValidSp500Date) {
-                        const portfolioReturn = (portfolioValues[i].value / lastPortfolioValue) - 1;
-                        const sp500Return = (currSp500Value / lastValidSp500Value) - 1;
-
-                        alignedPortfolioReturns.push(portfolioReturn);
-                        alignedSp500Returns.push(sp500Return);
-                    }
-
-                    lastValidSp500Date = currSp500Date;
-                    lastValidSp500Value = currSp500Value;
-                    lastPortfolioValue = portfolioValues[i].value;
-                }
-            }
-
-            if (alignedPortfolioReturns.length >= 20) {
-                sp500Correlation = calculateCorrelation(alignedPortfolioReturns, alignedSp500Returns);
-            }
+    // Calculate correlation and relative metrics for each benchmark with enough overlapping data
+    let benchmarkMetrics: { [ticker: string]: BenchmarkMetrics } | undefined;
+    if (benchmarkData) {
+        benchmarkMetrics = {};
+        for (const [ticker, benchmarkValues] of Object.entries(benchmarkData)) {
+            const relative = calculateRelativeMetrics(performanceValues, benchmarkValues);
+            if (relative) benchmarkMetrics[ticker] = relative;
         }
     }
 
-    const monthlyStats = calculateMonthlyPerformance(portfolioValues) ?? undefined;
+    const monthlyStats = calculateMonthlyPerformance(performanceValues) ?? undefined;
 
     return {
         initialInvestment,
@@ -242,61 +471,459 @@ export function calculateMetrics(
         bestDay,
         worstDay,
         maxDrawdown,
+        downsideDeviation,
+        sortinoRatio,
+        calmarRatio,
+        omegaRatio,
+        ulcerIndex,
+        martinRatio,
         monthlyStats,
-        sp500Correlation
+        benchmarkMetrics,
+        netInvested
+    };
+}
+
+export interface BenchmarkMetrics {
+    correlation: number;
+    beta: number;
+    alpha: number; // Jensen's alpha, annualized
+    trackingError: number; // Annualized standard deviation of active returns
+    informationRatio: number; // Annualized active return / tracking error
+    upCapture: number; // Portfolio / benchmark average return in periods the benchmark rose
+    downCapture: number; // Portfolio / benchmark average return in periods the benchmark fell
+    periods: number; // Aligned return periods used
+}
+
+/**
+ * Relative performance of the portfolio against any benchmark value series (an index, a
+ * single asset, or another portfolio). Portfolio returns are flow-neutral, and both series
+ * are aligned the same way as the benchmark metrics in calculateMetrics.
+ */
+export function calculateBenchmarkMetrics(
+    portfolioValues: { date: string; value: number }[],
+    benchmarkValues: { date: string; value: number }[],
+    cashFlows: CashFlow[] = [],
+    riskFreeRate: number = ANNUAL_RISK_FREE_RATE
+): BenchmarkMetrics | undefined {
+    const performanceValues = calculateTimeWeightedValues(portfolioValues, cashFlows);
+    return calculateRelativeMetrics(performanceValues, benchmarkValues, riskFreeRate);
+}
+
+// Helper to compute benchmark-relative metrics from an already flow-neutral value series
+function calculateRelativeMetrics(
+    performanceValues: { date: string; value: number }[],
+    benchmarkValues: { date: string; value: number }[],
+    riskFreeRate: number = ANNUAL_RISK_FREE_RATE
+): BenchmarkMetrics | undefined {
+    const aligned = alignBenchmarkReturns(performanceValues, benchmarkValues);
+    if (!aligned) return undefined;
+
+    const { portfolioReturns, benchmarkReturns, periodsPerYear } = aligned;
+    const n = portfolioReturns.length;
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+    // Beta = Cov(Rp, Rb) / Var(Rb)
+    const portfolioMean = mean(portfolioReturns);
+    const benchmarkMean = mean(benchmarkReturns);
+    let covariance = 0;
+    let benchmarkVariance = 0;
+    for (let i = 0; i < n; i++) {
+        covariance += (portfolioReturns[i] - portfolioMean) * (benchmarkReturns[i] - benchmarkMean);
+        benchmarkVariance += Math.pow(benchmarkReturns[i] - benchmarkMean, 2);
+    }
+    const beta = benchmarkVariance !== 0 ? covariance / benchmarkVariance : 0;
+
+    // Jensen's alpha = Rp - [Rf + Beta × (Rb - Rf)], per period then annualized
+    const periodRiskFree = Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1;
+    const alpha = ((portfolioMean - periodRiskFree) - beta * (benchmarkMean - periodRiskFree)) * periodsPerYear;
+
+    // Tracking Error / Information Ratio from active (portfolio minus benchmark) returns
+    const activeReturns = portfolioReturns.map((r, i) => r - benchmarkReturns[i]);
+    const activeMean = mean(activeReturns);
+    const activeVariance = activeReturns.reduce((a, r) => a + Math.pow(r - activeMean, 2), 0) / n;
+    const trackingError = Math.sqrt(activeVariance) * Math.sqrt(periodsPerYear);
+    const informationRatio = trackingError !== 0 ? (activeMean * periodsPerYear) / trackingError : 0;
+
+    // Up / Down Capture
+    const upPeriods = benchmarkReturns.map((_, i) => i).filter(i => benchmarkReturns[i] > 0);
+    const downPeriods = benchmarkReturns.map((_, i) => i).filter(i => benchmarkReturns[i] < 0);
+    const captureRatio = (periods: number[]) => {
+        const benchmarkAverage = mean(periods.map(i => benchmarkReturns[i]));
+        return benchmarkAverage !== 0 ? mean(periods.map(i => portfolioReturns[i])) / benchmarkAverage : 0;
     };
+
+    return {
+        correlation: calculateCorrelation(portfolioReturns, benchmarkReturns),
+        beta,
+        alpha,
+        trackingError,
+        informationRatio,
+        upCapture: captureRatio(upPeriods),
+        downCapture: captureRatio(downPeriods),
+        periods: n
+    };
+}
+
+export interface DrawdownEpisode {
+    peakDate: string;
+    troughDate: string;
+    recoveryDate: string | null; // null while the portfolio is still below the peak
+    depth: number; // Peak-to-trough loss as a positive fraction
+    declineDays: number; // Calendar days from peak to trough
+    recoveryDays: number | null; // Calendar days from trough back to the peak, if recovered
+}
+
+export interface DrawdownAnalysis {
+    underwater: { date: string; drawdown: number }[]; // Daily distance below the running peak (<= 0)
+    episodes: DrawdownEpisode[]; // Deepest first
+}
+
+/**
+ * Full drawdown history of the portfolio: the underwater curve and its deepest episodes.
+ * An episode runs from a peak to the day the flow-neutral value first gets back to it.
+ */
+export function calculateDrawdownAnalysis(
+    portfolioValues: { date: string; value: number }[],
+    cashFlows: CashFlow[] = [],
+    topN: number = 5
+): DrawdownAnalysis {
+    const performanceValues = calculateTimeWeightedValues(portfolioValues, cashFlows);
+    const underwater: { date: string; drawdown: number }[] = [];
+    const episodes: DrawdownEpisode[] = [];
+    if (performanceValues.length === 0) return { underwater, episodes };
+
+    const daysBetween = (from: string, to: string) =>
+        Math.round((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 3600 * 24));
+
+    let peak = performanceValues[0].value;
+    let peakDate = performanceValues[0].date;
+    let current: { peakDate: string; troughDate: string; depth: number } | null = null;
+
+    for (const point of performanceValues) {
+        if (point.value >= peak) {
+            // Back at (or above) the peak: close any open episode
+            if (current) {
+                episodes.push({
+                    ...current,
+                    recoveryDate: point.date,
+                    declineDays: daysBetween(current.peakDate, current.troughDate),
+                    recoveryDays: daysBetween(current.troughDate, point.date),
+                });
+                current = null;
+            }
+            peak = point.value;
+            peakDate = point.date;
+            underwater.push({ date: point.date, drawdown: 0 });
+            continue;
+        }
+
+        const drawdown = peak > 0 ? (peak - point.value) / peak : 0;
+        underwater.push({ date: point.date, drawdown: -drawdown });
+        if (!current) {
+            current = { peakDate, troughDate: point.date, depth: drawdown };
+        } else if (drawdown > current.depth) {
+            current.troughDate = point.date;
+            current.depth = drawdown;
+        }
+    }
+
+    if (current) {
+        episodes.push({
+            ...current,
+            recoveryDate: null,
+            declineDays: daysBetween(current.peakDate, current.troughDate),
+            recoveryDays: null,
+        });
+    }
+
+    episodes.sort((a, b) => b.depth - a.depth);
+    return { underwater, episodes: episodes.filter(e => e.depth > 0).slice(0, topN) };
+}
+
+// Helper to key a date (YYYY-MM-DD) by the calendar period it falls in
+function getPeriodKey(date: string, frequency: RebalanceFrequency): string {
+    const year = date.substring(0, 4);
+    const month = Number(date.substring(5, 7));
+
+    switch (frequency) {
+        case 'weekly':
+        case 'biweekly': {
+            // Weeks start on Monday; 1970-01-01 was a Thursday, hence the +3 offset
+            const days = Math.floor(new Date(date).getTime() / (1000 * 3600 * 24));
+            const week = Math.floor((days + 3) / 7);
+            return String(frequency === 'weekly' ? week : Math.floor(week / 2));
+        }
+        case 'monthly':
+            return date.substring(0, 7);
+        case 'quarterly':
+            return `${year}-Q${Math.ceil(month / 3)}`;
+        case 'semiannually':
+            return `${year}-H${month <= 6 ? 1 : 2}`;
+        case 'annually':
+            return year;
+        default:
+            return date;
+    }
+}
+
+// Helper to find the anchor date (YYYY-MM-DD) for 'day-of-month' within the period containing a date
+function getDayOfMonthAnchor(date: string, frequency: RebalanceFrequency, dayOfMonth: number): string {
+    const year = Number(date.substring(0, 4));
+    const month = Number(date.substring(5, 7));
+
+    // Anchor on the first month of the period (e.g. Jan/Apr/Jul/Oct for quarterly)
+    let anchorMonth = month;
+    if (frequency === 'quarterly') anchorMonth = Math.floor((month - 1) / 3) * 3 + 1;
+    if (frequency === 'semiannually') anchorMonth = month <= 6 ? 1 : 7;
+    if (frequency === 'annually') anchorMonth = 1;
+
+    const lastDayOfMonth = new Date(Date.UTC(year, anchorMonth, 0)).getUTCDate();
+    const day = Math.min(Math.max(1, Math.round(dayOfMonth)), lastDayOfMonth);
+    return new Date(Date.UTC(year, anchorMonth - 1, day)).toISOString().split('T')[0];
+}
+
+// Helper to list the dates a calendar rebalance occurs on, given the sorted trading dates
+function buildRebalanceDates(
+    dates: string[],
+    frequency: RebalanceFrequency,
+    anchor: RebalanceAnchor
+): Set<string> {
+    const rebalanceDates = new Set<string>();
+    if (frequency === 'none' || frequency === 'threshold' || dates.length === 0) return rebalanceDates;
+
+    // Group trading dates into consecutive calendar periods
+    const periods: string[][] = [];
+    let currentKey = '';
+    dates.forEach(date => {
+        const key = getPeriodKey(date, frequency);
+        if (key !== currentKey) {
+            periods.push([]);
+            currentKey = key;
+        }
+        periods[periods.length - 1].push(date);
+    });
+
+    // Day-of-month only makes sense for monthly and longer periods
+    const anchorType = frequency === 'daily' ||
+        (anchor.type === 'day-of-month' && (frequency === 'weekly' || frequency === 'biweekly'))
+        ? 'first-trading-day'
+        : anchor.type;
+
+    periods.forEach((periodDates, index) => {
+        if (anchorType === 'first-trading-day') {
+            // First data row of each new period
+            if (index > 0) rebalanceDates.add(periodDates[0]);
+        } else if (anchorType === 'period-end') {
+            // Last data row of each period; the final period may be cut short by the data, so skip it
+            if (index < periods.length - 1) rebalanceDates.add(periodDates[periodDates.length - 1]);
+        } else {
+            // First data row on or after the chosen day of the period's first month
+            const anchorDate = getDayOfMonthAnchor(periodDates[0], frequency, anchor.dayOfMonth ?? 1);
+            const rebalanceDate = periodDates.find(d => d >= anchorDate);
+            if (rebalanceDate) rebalanceDates.add(rebalanceDate);
+        }
+    });
+
+    // Day 0 is the initial purchase, not a rebalance
+    rebalanceDates.delete(dates[0]);
+    return rebalanceDates;
 }
 
-// Helper function to check if rebalancing should occur on a given date
-function shouldRebalance(
-    currentDate: string,
-    lastRebalanceDate: string,
-    frequency: RebalanceFrequency
+// Helper function to check if any asset has drifted outside its tolerance band
+function exceedsRebalanceBands(
+    currentWeights: { [ticker: string]: number }, // fractions (e.g., 0.25)
+    targetWeights: { [ticker: string]: number },  // percentages (e.g., 25)
+    bands: RebalanceBands
 ): boolean {
-    if (frequency === 'none') return false;
+    // Compare against targets renormalized over tradable assets so an unpriced sleeve isn't drift
+    const tradable = Object.keys(targetWeights).filter(ticker => currentWeights[ticker] !== undefined);
+    const tradableTotal = tradable.reduce((sum, ticker) => sum + targetWeights[ticker], 0);
+    if (tradableTotal <= 0) return false;
+
+    return tradable.some(ticker => {
+        const target = targetWeights[ticker] / tradableTotal;
+        const drift = Math.abs(currentWeights[ticker] - target);
+
+        if (bands.absolute > 0 && drift * 100 > bands.absolute) return true;
+        if (bands.relative > 0 && target > 0 && (drift / target) * 100 > bands.relative) return true;
+        return false;
+    });
+}
 
-    const current = new Date(currentDate);
-    const lastRebalance = new Date(lastRebalanceDate);
+// Cost of a single trade: percentage fee + slippage scale with notional, fixed fee per trade
+function calculateTradeCost(notional: number, costs: TransactionCosts): number {
+    if (notional < MIN_TRADE_NOTIONAL) return 0;
+    return notional * (costs.percentageFee / 100) +
+           notional * (costs.slippageBps / 10000) +
+           costs.fixedFee;
+}
 
-    if (frequency === 'quarterly') {
-        // Rebalance every 3 months
-        const currentQuarter = Math.floor(current.getMonth() / 3);
-        const lastQuarter = Math.floor(lastRebalance.getMonth() / 3);
-        const currentYear = current.getFullYear();
-        const lastYear = lastRebalance.getFullYear();
+// Helper to list the dates (YYYY-MM-DD) a cash flow schedule fires between start and end.
+// Recurring schedules fire one period after the start date; custom dates apply after the start too,
+// so dates before it are dropped rather than all landing on day 0.
+function buildCashFlowDates(schedule: CashFlowSchedule, startDate: string, endDate: string): string[] {
+    if (schedule.frequency === 'none' || schedule.amount <= 0) return [];
 
-        return (currentYear > lastYear) ||
-               (currentYear === lastYear && currentQuarter > lastQuarter);
+    if (schedule.frequency === 'custom') {
+        return (schedule.customDates || [])
+            .filter(d => d > startDate && d <= endDate)
+            .sort();
     }
 
-    if (frequency === 'annually') {
-        // Rebalance every year
-        return current.getFullYear() > lastRebalance.getFullYear();
+    const dates: string[] = [];
+    const start = new Date(startDate);
+    for (let period = 1; ; period++) {
+        let next: Date;
+        if (schedule.frequency === 'monthly') {
+            // Same day of month as the start, clamped to shorter months (e.g. Jan 31 -> Feb 28)
+            const year = start.getUTCFullYear();
+            const month = start.getUTCMonth() + period;
+            const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+            next = new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDayOfMonth)));
+        } else {
+            const days = schedule.frequency === 'weekly' ? 7 : 14;
+            next = new Date(start.getTime() + period * days * 24 * 3600 * 1000);
+        }
+
+        const nextStr = next.toISOString().split('T')[0];
+        if (nextStr > endDate) break;
+        dates.push(nextStr);
     }
+    return dates;
+}
+
+/**
+ * Annual yield (decimal) a cash sleeve earns under the given setting.
+ */
+export function getAnnualCashYield(cashYield: CashYield = DEFAULT_CASH_YIELD): number {
+    return cashYield.source === 'risk-free' ? ANNUAL_RISK_FREE_RATE : cashYield.apy / 100;
+}
+
+// Helper to price cash sleeves: $1 at the start, compounding daily at the annual yield
+function withCashPrices(
+    historicalData: DailyData[],
+    cashTickers: string[],
+    annualYield: number // decimal (e.g., 0.03)
+): DailyData[] {
+    if (cashTickers.length === 0) return historicalData;
+
+    const startTime = new Date(historicalData[0].date).getTime();
+    return historicalData.map(day => {
+        const days = (new Date(day.date).getTime() - startTime) / (1000 * 3600 * 24);
+        const price = Math.pow(1 + annualYield, days / 365);
+        const pricedDay: DailyData = { ...day };
+        cashTickers.forEach(ticker => {
+            pricedDay[ticker] = price;
+        });
+        return pricedDay;
+    });
+}
 
-    return false;
+// Helper to check whether an asset has a usable price (i.e. has listed) on a given day
+function isListed(dayData: DailyData, ticker: string): boolean {
+    const price = dayData[ticker] as number;
+    return !!price && price > 0;
 }
 
 export function calculatePortfolioHistory(
     historicalData: DailyData[],
     weights: { [ticker: string]: number }, // percentages summing to 100 (e.g., 50, 30, 20)
     initialInvestment: number,
-    rebalanceFrequency: RebalanceFrequency = 'none'
-): { date: string; value: number }[] {
-    if (!historicalData || historicalData.length === 0) return [];
+    rebalanceFrequency: RebalanceFrequency = 'none',
+    options: SimulationOptions = {}
+): PortfolioHistory {
+    if (!historicalData || historicalData.length === 0) return { values: [], totalCosts: 0, cashFlows: [] };
+
+    const costs = options.transactionCosts ?? DEFAULT_TRANSACTION_COSTS;
+    const schedule = options.cashFlowSchedule ?? DEFAULT_CASH_FLOW_SCHEDULE;
+    const policy = options.preListingPolicy ?? DEFAULT_PRE_LISTING_POLICY;
+    const cashYield = options.cashYield ?? DEFAULT_CASH_YIELD;
+
+    // Target weights (percentages); a weighting rule replaces them on day 0 and at each rebalance
+    let targets = { ...weights };
+
+    // Cash sleeves need no market data: synthesize their price from the configured yield
+    let data = withCashPrices(historicalData, Object.keys(targets).filter(isCashAsset), getAnnualCashYield(cashYield));
+
+    // 'start-at-listing' drops the days before every weighted asset has a price
+    if (policy === 'start-at-listing') {
+        const firstListedIndex = data.findIndex(day =>
+            Object.keys(targets).every(ticker => targets[ticker] <= 0 || isListed(day, ticker))
+        );
+        if (firstListedIndex === -1) return { values: [], totalCosts: 0, cashFlows: [] };
+        data = data.slice(firstListedIndex);
+    }
 
     const results: { date: string; value: number }[] = [];
+    const cashFlows: CashFlow[] = [];
     let units: { [ticker: string]: number } = {};
-    let lastRebalanceDate = historicalData[0].date;
+    let cash = 0; // Sleeves of not-yet-listed assets under the 'cash' policy
+    let totalCosts = 0;
+    const ledger: LedgerEntry[] | undefined = options.recordLedger ? [] : undefined;
+    const holdings: DailyHoldings[] | undefined = options.recordLedger ? [] : undefined;
+    const targetHistory: { date: string; weights: { [ticker: string]: number } }[] | undefined = options.weighting ? [] : undefined;
+
+    const rebalanceDates = buildRebalanceDates(
+        data.map(d => d.date),
+        rebalanceFrequency,
+        options.rebalanceAnchor ?? DEFAULT_REBALANCE_ANCHOR
+    );
+
+    const bands = options.rebalanceBands ??
+        (rebalanceFrequency === 'threshold' ? DEFAULT_REBALANCE_BANDS : undefined);
+
+    const flowDates = buildCashFlowDates(
+        schedule,
+        data[0].date,
+        data[data.length - 1].date
+    );
+    let nextFlowIndex = 0;
+
+    // Moving money into or out of a cash sleeve is free; only the market leg of a trade pays costs
+    const tradeCostFor = (ticker: string, notional: number) =>
+        isCashAsset(ticker) ? 0 : calculateTradeCost(notional, costs);
+
+    // Staking APYs (decimals) of held assets, when reward compounding is switched on
+    const stakingYields: { [ticker: string]: number } = {};
+    if (options.compoundStakingYield) {
+        Object.keys(targets).forEach(ticker => {
+            const stakingYield = getAssetByTicker(ticker)?.stakingYield;
+            if (stakingYield) stakingYields[ticker] = stakingYield / 100;
+        });
+    }
+
+    const listed = new Set(Object.keys(targets).filter(ticker => isListed(data[0], ticker)));
+
+    // Helper to get target weights (fractions) of the assets that trade on a given day. Under 'cash'
+    // unlisted sleeves are left out and held as cash; under 'redistribute' they go pro-rata to listed assets.
+    const getTradableWeights = (dayData: DailyData) => {
+        const tradable = Object.keys(targets).filter(ticker => isListed(dayData, ticker));
+        const totalWeight = Object.values(targets).reduce((a, b) => a + b, 0);
+        const tradableWeight = tradable.reduce((sum, ticker) => sum + targets[ticker], 0);
+        const scale = policy === 'redistribute' && tradableWeight > 0 ? totalWeight / tradableWeight : 1;
+
+        const tradableWeights: { [ticker: string]: number } = {};
+        tradable.forEach(ticker => {
+            tradableWeights[ticker] = (targets[ticker] / 100) * scale;
+        });
+        return tradableWeights;
+    };
 
-    // Helper to calculate units from a given portfolio value
-    const calculateUnits = (dayData: DailyData, portfolioValue: number) => {
+    // Helper to get the fraction of the portfolio held as cash for unlisted assets on a given day
+    const getCashWeight = (dayData: DailyData) => {
+        if (policy !== 'cash') return 0;
+        return Object.keys(targets)
+            .filter(ticker => !isListed(dayData, ticker))
+            .reduce((sum, ticker) => sum + targets[ticker] / 100, 0);
+    };
+
+    // Helper to calculate units from a given amount and target weights (fractions)
+    const calculateUnits = (dayData: DailyData, portfolioValue: number, targetWeights: { [ticker: string]: number }) => {
         const newUnits: { [ticker: string]: number } = {};
-        Object.keys(weights).forEach((ticker) => {
-            const weight = weights[ticker] / 100;
+        Object.keys(targets).forEach((ticker) => {
             const price = dayData[ticker] as number;
-            if (price && price > 0) {
-                newUnits[ticker] = (portfolioValue * weight) / price;
+            if (targetWeights[ticker] !== undefined && price > 0) {
+                newUnits[ticker] = (portfolioValue * targetWeights[ticker]) / price;
             } else {
                 newUnits[ticker] = 0;
             }
@@ -304,7 +931,7 @@ export function calculatePortfolioHistory(
         return newUnits;
     };
 
-    // Helper to calculate portfolio value from units
+    // Helper to calculate the value of asset holdings from units (excludes cash)
     const calculateValue = (dayData: DailyData, currentUnits: { [ticker: string]: number }) => {
         let totalValue = 0;
         Object.keys(currentUnits).forEach((ticker) => {
@@ -316,31 +943,272 @@ export function calculatePortfolioHistory(
         return totalValue;
     };
 
+    // Helper to calculate current weights (fractions) of tradable assets
+    const calculateWeights = (dayData: DailyData, currentUnits: { [ticker: string]: number }) => {
+        const totalValue = calculateValue(dayData, currentUnits);
+        const currentWeights: { [ticker: string]: number } = {};
+        if (totalValue <= 0) return currentWeights;
+        Object.keys(currentUnits).forEach((ticker) => {
+            if (isListed(dayData, ticker)) {
+                currentWeights[ticker] = (currentUnits[ticker] * (dayData[ticker] as number)) / totalValue;
+            }
+        });
+        return currentWeights;
+    };
+
+    // Helper to trade from current holdings to target weights, paying costs out of the portfolio.
+    // Costs shrink the amount left to invest, which shrinks the trades, so iterate to a fixed point.
+    const tradeToTarget = (dayData: DailyData, portfolioValue: number, currentUnits: { [ticker: string]: number }) => {
+        const targetWeights = getTradableWeights(dayData);
+        let investable = portfolioValue;
+        for (let iteration = 0; iteration < 5; iteration++) {
+            let tradeCost = 0;
+            Object.keys(targetWeights).forEach((ticker) => {
+                const price = dayData[ticker] as number;
+                const targetNotional = investable * targetWeights[ticker];
+                const currentNotional = (currentUnits[ticker] || 0) * price;
+                tradeCost += tradeCostFor(ticker, Math.abs(targetNotional - currentNotional));
+            });
+            investable = Math.max(0, portfolioValue - tradeCost);
+        }
+        totalCosts += portfolioValue - investable;
+        cash = investable * getCashWeight(dayData);
+        return calculateUnits(dayData, investable, targetWeights);
+    };
+
+    // Helper to spend an amount of cash across assets pro-rata to the given weights, net of costs
+    const buyAtWeights = (
+        dayData: DailyData,
+        amount: number,
+        buyWeights: { [ticker: string]: number },
+        currentUnits: { [ticker: string]: number }
+    ) => {
+        const totalWeight = Object.values(buyWeights).reduce((a, b) => a + b, 0);
+        const newUnits = { ...currentUnits };
+        if (amount <= 0 || totalWeight <= 0) return newUnits;
+
+        let investable = amount;
+        for (let iteration = 0; iteration < 5; iteration++) {
+            let tradeCost = 0;
+            Object.keys(buyWeights).forEach((ticker) => {
+                tradeCost += tradeCostFor(ticker, investable * (buyWeights[ticker] / totalWeight));
+            });
+            investable = Math.max(0, amount - tradeCost);
+        }
+        totalCosts += amount - investable;
+        Object.keys(buyWeights).forEach((ticker) => {
+            const price = dayData[ticker] as number;
+            newUnits[ticker] = (newUnits[ticker] || 0) + (investable * (buyWeights[ticker] / totalWeight)) / price;
+        });
+        return newUnits;
+    };
+
+    // Helper to log the trades between two unit snapshots. The costs charged since costsBefore are
+    // split across the trades in proportion to each trade's own cost, so ledger fees add up to totalCosts.
+    const recordTrades = (
+        dayData: DailyData,
+        before: { [ticker: string]: number },
+        after: { [ticker: string]: number },
+        reason: TradeReason,
+        costsBefore: number
+    ) => {
+        if (!ledger) return;
+        const trades: LedgerEntry[] = [];
+        Object.keys(after).forEach((ticker) => {
+            const price = dayData[ticker] as number;
+            const unitChange = (after[ticker] || 0) - (before[ticker] || 0);
+            const notional = Math.abs(unitChange) * price;
+            if (!(price > 0) || notional < MIN_TRADE_NOTIONAL) return;
+            trades.push({
+                date: dayData.date,
+                ticker,
+                side: unitChange > 0 ? 'buy' : 'sell',
+                units: Math.abs(unitChange),
+                price,
+                notional,
+                fee: tradeCostFor(ticker, notional),
+                reason
+            });
+        });
+        const estimatedFees = trades.reduce((sum, trade) => sum + trade.fee, 0);
+        const feesPaid = totalCosts - costsBefore;
+        trades.forEach(trade => {
+            trade.fee = estimatedFees > 0 ? feesPaid * (trade.fee / estimatedFees) : 0;
+        });
+        ledger.push(...trades);
+    };
+
+    // Helper to buy into assets that list today: 'cash' spends their held sleeves,
+    // 'redistribute' rebalances the whole portfolio now that the asset can be held
+    const handleListings = (dayData: DailyData, currentUnits: { [ticker: string]: number }) => {
+        const unlistedBefore = Object.keys(targets).filter(ticker => !listed.has(ticker));
+        const newlyListed = unlistedBefore.filter(ticker => isListed(dayData, ticker));
+        if (newlyListed.length === 0) return currentUnits;
+        newlyListed.forEach(ticker => listed.add(ticker));
+
+        if (policy === 'redistribute') {
+            return tradeToTarget(dayData, calculateValue(dayData, currentUnits) + cash, currentUnits);
+        }
+
+        const unlistedWeight = unlistedBefore.reduce((sum, ticker) => sum + targets[ticker], 0);
+        if (unlistedWeight <= 0) return currentUnits;
+        const buyWeights: { [ticker: string]: number } = {};
+        newlyListed.forEach(ticker => {
+            buyWeights[ticker] = targets[ticker];
+        });
+        const amount = cash * (Object.values(buyWeights).reduce((a, b) => a + b, 0) / unlistedWeight);
+        cash -= amount;
+        return buyAtWeights(dayData, amount, buyWeights, currentUnits);
+    };
+
+    // Helper to apply an external cash flow, returning the new units and the amount actually moved
+    const applyCashFlow = (dayData: DailyData, amount: number, currentUnits: { [ticker: string]: number }) => {
+        const currentValue = calculateValue(dayData, currentUnits) + cash;
+
+        if (schedule.allocation === 'rebalance') {
+            // Flow is absorbed by trading the whole portfolio back to target weights
+            const targetValue = Math.max(0, currentValue + amount);
+            return { units: tradeToTarget(dayData, targetValue, currentUnits), applied: targetValue - currentValue };
+        }
+
+        if (amount > 0) {
+            // Contribution: buy each asset in proportion to its target weight (unlisted sleeves go to cash)
+            const tradableWeights = getTradableWeights(dayData);
+            const tradableWeight = Object.values(tradableWeights).reduce((a, b) => a + b, 0);
+            cash += amount * getCashWeight(dayData);
+            return {
+                units: buyAtWeights(dayData, amount * tradableWeight, tradableWeights, currentUnits),
+                applied: amount
+            };
+        }
+
+        // Withdrawal: sell pro-rata to current holdings (selling by target weight could oversell
+        // an asset that has drifted below target). Gross sales cover the withdrawal plus costs.
+        const newUnits = { ...currentUnits };
+        if (currentValue <= 0) return { units: newUnits, applied: 0 };
+        const withdrawal = Math.min(-amount, currentValue);
+        const saleCost = (grossSale: number) => {
+            let tradeCost = 0;
+            Object.keys(currentUnits).forEach((ticker) => {
+                if (!isListed(dayData, ticker)) return;
+                const notional = currentUnits[ticker] * (dayData[ticker] as number);
+                tradeCost += tradeCostFor(ticker, grossSale * notional / currentValue);
+            });
+            return tradeCost;
+        };
+        let grossSale = withdrawal;
+        for (let iteration = 0; iteration < 5; iteration++) {
+            grossSale = Math.min(currentValue, withdrawal + saleCost(grossSale));
+        }
+        const saleFraction = grossSale / currentValue;
+        Object.keys(newUnits).forEach((ticker) => {
+            newUnits[ticker] *= (1 - saleFraction);
+        });
+        cash *= (1 - saleFraction);
+        // If the portfolio can't cover withdrawal + costs, everything is sold and costs come out of proceeds
+        const netWithdrawal = Math.max(0, Math.min(withdrawal, grossSale - saleCost(grossSale)));
+        totalCosts += grossSale - netWithdrawal;
+        return { units: newUnits, applied: -netWithdrawal };
+    };
+
+    // Helper to refresh the targets from the weighting rule, keeping the old ones if it has no answer
+    const updateTargets = (dayIndex: number) => {
+        if (!options.weighting || !targetHistory) return;
+        const tickers = Object.keys(weights);
+        const history = data.slice(0, dayIndex + 1);
+        const ruleWeights = options.weighting(options.weightingHistory ? options.weightingHistory.concat(history) : history, tickers);
+        const total = tickers.reduce((sum, ticker) => sum + Math.max(0, ruleWeights[ticker] || 0), 0);
+        if (total <= 0) return;
+        const next: { [ticker: string]: number } = {};
+        tickers.forEach(ticker => {
+            next[ticker] = (Math.max(0, ruleWeights[ticker] || 0) / total) * 100;
+        });
+        targets = next;
+        targetHistory.push({ date: data[dayIndex].date, weights: next });
+    };
+
     // Initialize units on Day 0
-    units = calculateUnits(historicalData[0], initialInvestment);
+    updateTargets(0);
+    units = tradeToTarget(data[0], initialInvestment, {});
+    recordTrades(data[0], {}, units, 'initial', 0);
 
     // Calculate portfolio value for each day
-    for (let i = 0; i < historicalData.length; i++) {
-        const day = historicalData[i];
+    for (let i = 0; i < data.length; i++) {
+        const day = data[i];
+
+        // Compound staking rewards earned since the previous day into additional units
+        if (i > 0 && Object.keys(stakingYields).length > 0) {
+            const elapsedDays = (new Date(day.date).getTime() - new Date(data[i - 1].date).getTime()) / (1000 * 3600 * 24);
+            Object.keys(stakingYields).forEach(ticker => {
+                units[ticker] = (units[ticker] || 0) * Math.pow(1 + stakingYields[ticker], elapsedDays / 365);
+            });
+        }
+
+        // Buy into any assets that started trading today
+        if (i > 0) {
+            const costsBefore = totalCosts;
+            const unitsBefore = units;
+            units = handleListings(day, units);
+            recordTrades(day, unitsBefore, units, 'listing', costsBefore);
+        }
+
+        // Apply any scheduled cash flows that fall on or before this day (gaps can batch several)
+        let flowAmount = 0;
+        while (nextFlowIndex < flowDates.length && flowDates[nextFlowIndex] <= day.date) {
+            flowAmount += schedule.type === 'withdrawal' ? -schedule.amount : schedule.amount;
+            nextFlowIndex++;
+        }
+        if (flowAmount !== 0) {
+            const costsBefore = totalCosts;
+            const flow = applyCashFlow(day, flowAmount, units);
+            recordTrades(day, units, flow.units, flowAmount > 0 ? 'contribution' : 'withdrawal', costsBefore);
+            units = flow.units;
+            if (flow.applied !== 0) {
+                cashFlows.push({ date: day.date, amount: flow.applied });
+            }
+        }
 
         // Check if we need to rebalance (not on day 0)
-        if (i > 0 && shouldRebalance(day.date, lastRebalanceDate, rebalanceFrequency)) {
+        let rebalanceDue = false;
+        if (i > 0 && rebalanceFrequency === 'threshold') {
+            rebalanceDue = !!bands && exceedsRebalanceBands(calculateWeights(day, units), targets, bands);
+            // A weighting rule is re-run when the bands trigger
+            if (rebalanceDue) updateTargets(i);
+        } else if (rebalanceDates.has(day.date)) {
+            // A weighting rule is re-run first, so drift is measured against the new targets
+            updateTargets(i);
+            // Calendar date reached; in hybrid mode only act if drift has breached the bands
+            rebalanceDue = !bands || exceedsRebalanceBands(calculateWeights(day, units), targets, bands);
+        }
+
+        if (rebalanceDue) {
             // Calculate current portfolio value before rebalancing
-            const currentValue = calculateValue(day, units);
-            // Rebalance: recalculate units based on current value and target weights
-            units = calculateUnits(day, currentValue);
-            lastRebalanceDate = day.date;
+            const currentValue = calculateValue(day, units) + cash;
+            // Rebalance: trade back to target weights, net of transaction costs
+            const costsBefore = totalCosts;
+            const unitsBefore = units;
+            units = tradeToTarget(day, currentValue, units);
+            recordTrades(day, unitsBefore, units, 'rebalance', costsBefore);
         }
 
-        const totalValue = calculateValue(day, units);
+        const totalValue = calculateValue(day, units) + cash;
 
         results.push({
             date: day.date,
             value: totalValue,
         });
+
+        if (holdings) {
+            const dayWeights: { [ticker: string]: number } = {};
+            Object.keys(units).forEach((ticker) => {
+                const price = day[ticker] as number;
+                dayWeights[ticker] = totalValue > 0 && price > 0 ? (units[ticker] * price) / totalValue : 0;
+            });
+            holdings.push({ date: day.date, units: { ...units }, weights: dayWeights, cash });
+        }
     }
 
-    return results;
+    return { values: results, totalCosts, cashFlows, ledger, holdings, targetHistory };
 }
 
 export function calculateMonthlyPerformance(
@@ -360,7 +1228,7 @@ export function calculateMonthlyPerformance(
 
         if (month !== currentMonth) {
             // New month started
-            if (monthStart && monthEnd) {
+            if (monthStart && monthEnd && monthStart.value > 0) {
                 // Save previous month
                 const monthReturn = (monthEnd.value / monthStart.value) - 1;
                 monthlyData.push({
@@ -377,7 +1245,7 @@ export function calculateMonthlyPerformance(
     }
 
     // Add the last month
-    if (monthStart && monthEnd) {
+    if (monthStart && monthEnd && monthStart.value > 0) {
         const monthReturn = (monthEnd.value / monthStart.value) - 1;
         monthlyData.push({
             month: currentMonth,
@@ -440,26 +1308,123 @@ export function calculateCorrelation(
     return numerator / denominator;
 }
 
+export interface CorrelationMatrix {
+    tickers: string[];
+    correlations: (number | null)[][]; // [row][column], null when a pair has too few overlapping returns
+    observations: number[][]; // Returns behind each pair
+}
+
+// Fewest paired returns a correlation is reported for
+const MIN_CORRELATION_OBSERVATIONS = 10;
+
+/**
+ * Pairwise return correlations between tickers, each pair over the dates both have prices.
+ * Pairs that include a non-crypto series (stock indices, ETFs, futures) skip weekends so the
+ * forward-filled weekend closes don't show up as flat days.
+ * @param marketData - Daily prices by ticker
+ * @param tickers - Tickers to correlate, in display order
+ * @param frequency - Sample prices daily, at the last day of each week, or of each month
+ * @param windowDays - Only use the trailing windowDays of data (null for the full period)
+ */
+export function calculateCorrelationMatrix(
+    marketData: DailyData[],
+    tickers: string[],
+    frequency: ReturnFrequency = 'daily',
+    windowDays: number | null = null
+): CorrelationMatrix {
+    let data = marketData;
+    if (windowDays !== null && marketData.length > 0) {
+        const endTime = new Date(marketData[marketData.length - 1].date).getTime();
+        const windowStart = new Date(endTime - windowDays * 1000 * 3600 * 24).toISOString().split('T')[0];
+        data = marketData.filter(day => day.date >= windowStart);
+    }
+
+    const tradesWeekends = (ticker: string) => getAssetByTicker(ticker) !== undefined;
+    const isWeekend = (date: string) => {
+        const day = new Date(date).getUTCDay();
+        return day === 0 || day === 6;
+    };
+
+    // Returns of both series between consecutive sampled days where both have prices
+    const pairReturns = (a: string, b: string): { a: number[]; b: number[] } => {
+        const skipWeekends = !tradesWeekends(a) || !tradesWeekends(b);
+        const days = data.filter(day =>
+            (day[a] as number) > 0 && (day[b] as number) > 0 && !(skipWeekends && isWeekend(day.date))
+        );
+
+        // Keep the last day of each week/month
+        const sampled = frequency === 'daily'
+            ? days
+            : days.filter((day, i) => i === days.length - 1 || getPeriodKey(day.date, frequency) !== getPeriodKey(days[i + 1].date, frequency));
+
+        const returnsA: number[] = [];
+        const returnsB: number[] = [];
+        for (let i = 1; i < sampled.length; i++) {
+            returnsA.push((sampled[i][a] as number) / (sampled[i - 1][a] as number) - 1);
+            returnsB.push((sampled[i][b] as number) / (sampled[i - 1][b] as number) - 1);
+        }
+        return { a: returnsA, b: returnsB };
+    };
+
+    const correlations: (number | null)[][] = tickers.map(() => tickers.map(() => null));
+    const observations: number[][] = tickers.map(() => tickers.map(() => 0));
+
+    for (let i = 0; i < tickers.length; i++) {
+        for (let j = i; j < tickers.length; j++) {
+            const returns = pairReturns(tickers[i], tickers[j]);
+            const n = returns.a.length;
+            const correlation = n >= MIN_CORRELATION_OBSERVATIONS
+                ? (i === j ? 1 : calculateCorrelation(returns.a, returns.b))
+                : null;
+            correlations[i][j] = correlations[j][i] = correlation;
+            observations[i][j] = observations[j][i] = n;
+        }
+    }
+
+    return { tickers, correlations, observations };
+}
+
 export interface RollingMetricsData {
     date: string;
+    return: number | null; // Total return over the window (not annualized)
     sharpeRatio: number | null;
+    sortinoRatio: number | null;
     volatility: number | null;
+    maxDrawdown: number | null; // Deepest peak-to-trough loss inside the window, as a positive fraction
+    beta: number | null; // null when no benchmark was given or the window has too little overlap
+    correlation: number | null;
+}
+
+export interface RollingMetricsOptions {
+    windowDays?: number; // Daily returns per window
+    stepDays?: number; // Days between samples
+    benchmarkValues?: { date: string; value: number }[]; // Prices for rolling beta/correlation
 }
 
 // Number of trading days in a year for crypto (trades 365 days)
 const TRADING_DAYS_PER_YEAR = 365;
 
+export const ROLLING_WINDOW_OPTIONS = [30, 90, 180, 365, 730];
+export const DEFAULT_ROLLING_WINDOW = TRADING_DAYS_PER_YEAR;
+export const DEFAULT_ROLLING_STEP = 7;
+
 /**
- * Calculate 1-year rolling Sharpe ratio and volatility using daily returns
+ * Calculate rolling return, Sharpe, Sortino, volatility, max drawdown and benchmark beta/correlation
  * Matches the methodology used in calculateMetrics for consistency
  * @param portfolioValues - Array of daily portfolio values
- * @param riskFreeRate - Annual risk-free rate (default 3%)
- * @returns Array of rolling metrics with date, sharpeRatio, and volatility
+ * @param riskFreeRate - Annual risk-free rate (default 3%), also the Sortino minimum acceptable return
+ * @param options - Window length, sampling step and optional benchmark prices
+ * @returns Array of rolling metrics, one per sampled window end date
  */
 export function calculateRollingMetrics(
     portfolioValues: { date: string; value: number }[],
-    riskFreeRate: number = ANNUAL_RISK_FREE_RATE
+    riskFreeRate: number = ANNUAL_RISK_FREE_RATE,
+    options: RollingMetricsOptions = {}
 ): RollingMetricsData[] {
+    const windowDays = Math.max(2, Math.floor(options.windowDays ?? DEFAULT_ROLLING_WINDOW));
+    const stepDays = Math.max(1, Math.floor(options.stepDays ?? DEFAULT_ROLLING_STEP));
+    const benchmarkValues = options.benchmarkValues;
+
     if (portfolioValues.length < 2) return [];
 
     // Calculate daily returns
@@ -472,16 +1437,16 @@ export function calculateRollingMetrics(
         });
     }
 
-    // Need at least 365 days for 1-year rolling calculation
-    if (dailyReturns.length < TRADING_DAYS_PER_YEAR) return [];
+    // Need at least one full window of returns
+    if (dailyReturns.length < windowDays) return [];
 
+    const dailyMar = Math.pow(1 + riskFreeRate, 1 / TRADING_DAYS_PER_YEAR) - 1;
     const results: RollingMetricsData[] = [];
 
-    // Calculate rolling metrics for each day starting from day 365
-    // Sample weekly to reduce data points while maintaining the rolling window
-    for (let i = TRADING_DAYS_PER_YEAR - 1; i < dailyReturns.length; i += 7) {
-        // Get the last 365 days of returns
-        const rollingReturns = dailyReturns.slice(i - TRADING_DAYS_PER_YEAR + 1, i + 1).map(d => d.return);
+    // Sample every stepDays to reduce data points while maintaining the rolling window
+    for (let i = windowDays - 1; i < dailyReturns.length; i += stepDays) {
+        // Get the last windowDays of returns
+        const rollingReturns = dailyReturns.slice(i - windowDays + 1, i + 1).map(d => d.return);
 
         // Calculate mean daily return
         const meanReturn = rollingReturns.reduce((a, b) => a + b, 0) / rollingReturns.length;
@@ -493,20 +1458,56 @@ export function calculateRollingMetrics(
         // Annualize the volatility (multiply by sqrt(365) for daily crypto data)
         const annualizedVolatility = dailyStdDev * Math.sqrt(TRADING_DAYS_PER_YEAR);
 
-        // Calculate CAGR for the rolling period
-        const startValue = portfolioValues[i - TRADING_DAYS_PER_YEAR + 1].value;
-        const endValue = portfolioValues[i + 1].value; // +1 because dailyReturns is offset by 1
-        const cagr = (endValue / startValue) - 1; // 1-year period, so no need for power calculation
+        // Calculate the return and CAGR for the rolling period
+        const windowValues = portfolioValues.slice(i - windowDays + 1, i + 2); // +1 because dailyReturns is offset by 1
+        const startValue = windowValues[0].value;
+        const endValue = windowValues[windowValues.length - 1].value;
+        const windowReturn = (endValue / startValue) - 1;
+        const cagr = Math.pow(endValue / startValue, TRADING_DAYS_PER_YEAR / windowDays) - 1;
 
         // Calculate Sharpe ratio: (CAGR - Risk Free Rate) / Annualized Volatility
         const sharpeRatio = annualizedVolatility !== 0
             ? (cagr - riskFreeRate) / annualizedVolatility
             : 0;
 
+        // Sortino ratio: only returns below the daily risk-free rate count as risk
+        const downsideVariance = rollingReturns.reduce((a, r) => a + Math.pow(Math.min(0, r - dailyMar), 2), 0) / rollingReturns.length;
+        const downsideDeviation = Math.sqrt(downsideVariance) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+        const sortinoRatio = downsideDeviation !== 0
+            ? (cagr - riskFreeRate) / downsideDeviation
+            : 0;
+
+        // Max drawdown measured from peaks inside the window only
+        let peak = windowValues[0].value;
+        let maxDrawdown = 0;
+        windowValues.forEach(point => {
+            if (point.value > peak) peak = point.value;
+            if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - point.value) / peak);
+        });
+
+        // Beta/correlation against the benchmark prices up to the end of the window
+        let relative: BenchmarkMetrics | undefined;
+        if (benchmarkValues) {
+            const windowStart = windowValues[0].date;
+            const windowEnd = windowValues[windowValues.length - 1].date;
+            const lastBefore = benchmarkValues.filter(d => d.date < windowStart).pop();
+            const windowBenchmark = benchmarkValues.filter(d => d.date >= windowStart && d.date <= windowEnd);
+            relative = calculateRelativeMetrics(
+                windowValues,
+                lastBefore ? [lastBefore, ...windowBenchmark] : windowBenchmark,
+                riskFreeRate
+            );
+        }
+
         results.push({
             date: dailyReturns[i].date,
+            return: windowReturn,
             sharpeRatio,
-            volatility: annualizedVolatility
+            sortinoRatio,
+            volatility: annualizedVolatility,
+            maxDrawdown,
+            beta: relative?.beta ?? null,
+            correlation: relative?.correlation ?? null
         });
     }
 
@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Server-only: persists daily closes per symbol so repeat requests don't refetch the full history
+
+export interface PricePoint {
+    date: string; // YYYY-MM-DD
+    price: number;
+}
+
+// Fetches daily closes for a symbol between two dates (inclusive)
+export type PriceFetcher = (symbol: string, startDate: string, endDate: string) => Promise<PricePoint[]>;
+
+// 'hit': served from disk; 'partial': some missing dates fetched; 'miss': fetched in full;
+// 'stale': a fetch failed and whatever was on disk was served instead; 'bypass': a local provider
+// that isn't cached
+export type CacheStatus = 'hit' | 'partial' | 'miss' | 'stale' | 'bypass';
+
+export interface CachedPrices {
+    prices: PricePoint[];
+    status: CacheStatus;
+    error?: string; // Set when a fetch failed
+}
+
+interface CacheFile {
+    symbol: string;
+    covered: [string, string][]; // Date ranges already fetched (inclusive), merged and sorted
+    prices: { [date: string]: number };
+    liveFetchedAt?: number; // When today's (not yet final) price was last fetched, in epoch ms
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// How long today's partial close is served from the cache before it is fetched again
+const LIVE_PRICE_TTL_MS = 15 * 60 * 1000;
+
+// Helper to shift a YYYY-MM-DD date by a number of days
+function addDays(date: string, days: number): string {
+    return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Helper for the cache directory; MARKET_DATA_CACHE_DIR overrides the default under the project root
+function getCacheDir(): string {
+    return process.env.MARKET_DATA_CACHE_DIR || path.join(process.cwd(), '.cache', 'market-data');
+}
+
+// Helper for a symbol's cache file; symbols like ^GSPC or GC=F are escaped
+function getCachePath(symbol: string): string {
+    return path.join(getCacheDir(), `${encodeURIComponent(symbol)}.json`);
+}
+
+// Helper to load a symbol's cache; missing or unreadable files are treated as an empty cache
+async function readCacheFile(symbol: string): Promise<CacheFile> {
+    try {
+        const contents = await fs.readFile(getCachePath(symbol), 'utf8');
+        const parsed = JSON.parse(contents) as CacheFile;
+        return { symbol, covered: parsed.covered ?? [], prices: parsed.prices ?? {}, liveFetchedAt: parsed.liveFetchedAt };
+    } catch {
+        return { symbol, covered: [], prices: {} };
+    }
+}
+
+// Helper to save a symbol's cache via a temporary file, so a concurrent request never reads a half-written one
+async function writeCacheFile(cache: CacheFile): Promise<void> {
+    const filePath = getCachePath(cache.symbol);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(cache));
+    await fs.rename(tempPath, filePath);
+}
+
+// Helper to merge overlapping or adjacent date ranges
+function mergeRanges(ranges: [string, string][]): [string, string][] {
+    const sorted = [...ranges].sort((a, b) => a[0].localeCompare(b[0]));
+    const merged: [string, string][] = [];
+    sorted.forEach(([start, end]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= addDays(last[1], 1)) {
+            if (end > last[1]) last[1] = end;
+        } else {
+            merged.push([start, end]);
+        }
+    });
+    return merged;
+}
+
+/**
+ * List the parts of [startDate, endDate] not yet covered by fetched ranges.
+ */
+export function findMissingRanges(
+    covered: [string, string][],
+    startDate: string,
+    endDate: string
+): [string, string][] {
+    const missing: [string, string][] = [];
+    let cursor = startDate;
+    mergeRanges(covered).forEach(([start, end]) => {
+        if (cursor > endDate || end < cursor) return;
+        if (start > cursor) missing.push([cursor, start > endDate ? endDate : addDays(start, -1)]);
+        cursor = addDays(end, 1);
+    });
+    if (cursor <= endDate) missing.push([cursor, endDate]);
+    return missing;
+}
+
+/**
+ * Get daily closes for a symbol, fetching only the dates the cache doesn't cover yet.
+ * Today's close isn't final, so it is never marked as covered; it is served from the cache for
+ * LIVE_PRICE_TTL_MS after each fetch and refetched after that.
+ * If a fetch fails the cached prices are served with status 'stale', so the app keeps working
+ * offline or while upstream is rate limiting.
+ * @param forceRefresh - Refetch the whole range, replacing cached prices within it
+ */
+export async function getCachedPrices(
+    symbol: string,
+    startDate: string,
+    endDate: string,
+    fetcher: PriceFetcher,
+    forceRefresh = false
+): Promise<CachedPrices> {
+    const cache = await readCacheFile(symbol);
+    const lastFinalDate = addDays(new Date().toISOString().split('T')[0], -1);
+    // Ranges starting after the last final close hold only today, which a recent fetch still covers
+    const liveIsFresh = cache.liveFetchedAt !== undefined && Date.now() - cache.liveFetchedAt < LIVE_PRICE_TTL_MS;
+    const missing = forceRefresh
+        ? [[startDate, endDate] as [string, string]]
+        : findMissingRanges(cache.covered, startDate, endDate).filter(([start]) => !liveIsFresh || start <= lastFinalDate);
+
+    let error: string | undefined;
+    let fetchedAll = true;
+    let fetchedAny = false;
+    for (const [start, end] of missing) {
+        try {
+            const fetched = await fetcher(symbol, start, end);
+            if (forceRefresh) {
+                Object.keys(cache.prices)
+                    .filter(date => date >= start && date <= end)
+                    .forEach(date => { delete cache.prices[date]; });
+            }
+            fetched.forEach(point => {
+                if (point.date >= start && point.date <= end && point.price > 0) {
+                    cache.prices[point.date] = point.price;
+                }
+            });
+            fetchedAny = true;
+            const coveredEnd = end < lastFinalDate ? end : lastFinalDate;
+            if (coveredEnd >= start) {
+                cache.covered = mergeRanges([...cache.covered, [start, coveredEnd]]);
+            }
+            if (end > lastFinalDate) cache.liveFetchedAt = Date.now();
+        } catch (fetchError) {
+            fetchedAll = false;
+            error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+            console.error(`Failed to fetch ${symbol} for ${start} to ${end}`, fetchError);
+        }
+    }
+
+    if (fetchedAny) {
+        try {
+            await writeCacheFile(cache);
+        } catch (writeError) {
+            // A read-only filesystem only costs us the cache, not the response
+            console.error(`Failed to write market data cache for ${symbol}`, writeError);
+        }
+    }
+
+    const prices = Object.keys(cache.prices)
+        .filter(date => date >= startDate && date <= endDate)
+        .sort()
+        .map(date => ({ date, price: cache.prices[date] }));
+
+    const missingDays = missing.reduce((sum, [start, end]) =>
+        sum + (new Date(end).getTime() - new Date(start).getTime()) / DAY_MS + 1, 0);
+    const requestedDays = (new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_MS + 1;
+    const status: CacheStatus = !fetchedAll ? 'stale'
+        : missing.length === 0 ? 'hit'
+            : missingDays >= requestedDays ? 'miss'
+                : 'partial';
+
+    return { prices, status, error };
+}
+
+/**
+ * Summarize per-symbol statuses into one value for the response header.
+ */
+export function combineCacheStatuses(statuses: CacheStatus[]): CacheStatus {
+    if (statuses.includes('stale')) return 'stale';
+    if (statuses.length > 0 && statuses.every(status => status === 'bypass')) return 'bypass';
+    if (statuses.length > 0 && statuses.every(status => status === 'hit')) return 'hit';
+    if (statuses.length > 0 && statuses.every(status => status === 'miss')) return 'miss';
+    return statuses.length === 0 ? 'hit' : 'partial';
+}
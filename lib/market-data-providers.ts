@@ -0,0 +1,200 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import YahooFinance from 'yahoo-finance2';
+import { getCachedPrices } from './market-data-cache';
+import type { CachedPrices, PriceFetcher, PricePoint } from './market-data-cache';
+import { createRandom } from './random';
+
+// Server-only: where the market-data route gets daily prices from
+
+export type MarketDataProviderName = 'yahoo' | 'file' | 'synthetic';
+
+export interface MarketDataProvider {
+    name: MarketDataProviderName;
+    fetchPrices: PriceFetcher;
+    cacheable: boolean; // Remote providers go through the disk cache; local ones are read directly
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Synthetic histories all start here, so any requested range sees the same prices
+const SYNTHETIC_ORIGIN = '2015-01-01';
+
+// Helper to hash a string into a 32-bit seed (FNV-1a)
+function hashString(value: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Yahoo Finance daily closes (adjusted where available).
+ */
+export function createYahooProvider(): MarketDataProvider {
+    // Initialize Yahoo Finance instance (required for v3+)
+    const yahooFinance = new YahooFinance();
+    return {
+        name: 'yahoo',
+        cacheable: true,
+        fetchPrices: async (symbol, startDate, endDate) => {
+            // period2 is exclusive, hence the extra day
+            const result = await yahooFinance.historical(symbol, {
+                period1: new Date(startDate),
+                period2: new Date(new Date(endDate).getTime() + DAY_MS),
+                interval: '1d',
+            });
+            return result.map(day => ({
+                date: new Date(day.date).toISOString().split('T')[0],
+                price: day.adjClose || day.close,
+            }));
+        }
+    };
+}
+
+// Helper to read prices from CSV text with a header row: a "date" column plus "adj close",
+// "close" or "price" (first one found, case-insensitive). Quoted fields aren't supported.
+function parsePriceCsv(text: string): PricePoint[] {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length === 0) return [];
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+    const dateColumn = header.indexOf('date');
+    const priceColumn = ['adj close', 'adj_close', 'adjclose', 'close', 'price']
+        .map(name => header.indexOf(name))
+        .find(index => index !== -1) ?? -1;
+    if (dateColumn === -1 || priceColumn === -1) {
+        throw new Error('CSV needs a "date" column and an "adj close", "close" or "price" column');
+    }
+
+    return lines.slice(1).map(line => {
+        const fields = line.split(',');
+        return { date: fields[dateColumn].trim().substring(0, 10), price: Number(fields[priceColumn]) };
+    });
+}
+
+// Helper to read prices from JSON: an array of { date, adjClose | close | price } rows, or a
+// { "YYYY-MM-DD": price } object
+function parsePriceJson(text: string): PricePoint[] {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) {
+        return parsed.map((row: { date: string; adjClose?: number; close?: number; price?: number }) => ({
+            date: String(row.date).substring(0, 10),
+            price: Number(row.adjClose ?? row.close ?? row.price),
+        }));
+    }
+    if (parsed && typeof parsed === 'object') {
+        return Object.entries(parsed as { [date: string]: number }).map(([date, price]) => ({
+            date: date.substring(0, 10),
+            price: Number(price),
+        }));
+    }
+    throw new Error('JSON must be an array of price rows or a date-to-price object');
+}
+
+/**
+ * Price histories from files in a data directory: <SYMBOL>.csv or <SYMBOL>.json (e.g. BTC-USD.csv,
+ * ^GSPC.json). A symbol without a file fails like an upstream error would.
+ */
+export function createFileProvider(dataDir: string): MarketDataProvider {
+    return {
+        name: 'file',
+        cacheable: false,
+        fetchPrices: async (symbol, startDate, endDate) => {
+            if (symbol.includes('/') || symbol.includes('\\') || symbol.includes('..')) {
+                throw new Error(`Invalid symbol ${symbol}`);
+            }
+
+            for (const extension of ['csv', 'json']) {
+                let text: string;
+                try {
+                    text = await fs.readFile(path.join(dataDir, `${symbol}.${extension}`), 'utf8');
+                } catch {
+                    continue;
+                }
+                const points = extension === 'csv' ? parsePriceCsv(text) : parsePriceJson(text);
+                return points
+                    .filter(point => point.date >= startDate && point.date <= endDate && point.price > 0)
+                    .sort((a, b) => a.date.localeCompare(b.date));
+            }
+            throw new Error(`No price file for ${symbol} in ${dataDir}`);
+        }
+    };
+}
+
+/**
+ * Deterministic random-walk prices for demos and tests; no network or files needed.
+ * Each symbol gets its own drift, volatility and starting price from a hash of its name (and the
+ * seed), and the same date always has the same price. "-USD" symbols trade every day, anything
+ * else only on weekdays.
+ */
+export function createSyntheticProvider(seed = 0): MarketDataProvider {
+    return {
+        name: 'synthetic',
+        cacheable: false,
+        fetchPrices: async (symbol, startDate, endDate) => {
+            const random = createRandom(hashString(symbol) ^ seed);
+            const isCrypto = symbol.endsWith('-USD');
+            const annualDrift = isCrypto ? 0.4 * random() : 0.03 + 0.07 * random();
+            const annualVolatility = isCrypto ? 0.4 + 0.6 * random() : 0.1 + 0.15 * random();
+            // Uniform shocks scaled to unit variance, then to a day's share of the annual volatility
+            const dailyDrift = annualDrift / 365;
+            const dailyShock = (annualVolatility / Math.sqrt(365)) * Math.sqrt(12);
+            let price = 10 + 990 * random();
+
+            const points: PricePoint[] = [];
+            const endTime = new Date(endDate).getTime();
+            for (let time = new Date(SYNTHETIC_ORIGIN).getTime(); time <= endTime; time += DAY_MS) {
+                price *= Math.exp(dailyDrift + dailyShock * (random() - 0.5));
+                const date = new Date(time).toISOString().split('T')[0];
+                const weekday = new Date(time).getUTCDay();
+                if (date >= startDate && (isCrypto || (weekday !== 0 && weekday !== 6))) {
+                    points.push({ date, price });
+                }
+            }
+            return points;
+        }
+    };
+}
+
+/**
+ * Pick the provider from MARKET_DATA_PROVIDER ('yahoo' by default, 'file' or 'synthetic').
+ * The file provider reads from MARKET_DATA_DIR (default data/prices under the project root);
+ * the synthetic provider takes an optional numeric MARKET_DATA_SEED.
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+    const name = (process.env.MARKET_DATA_PROVIDER || 'yahoo').toLowerCase();
+    switch (name) {
+        case 'file':
+            return createFileProvider(process.env.MARKET_DATA_DIR || path.join(process.cwd(), 'data', 'prices'));
+        case 'synthetic':
+            return createSyntheticProvider(Number(process.env.MARKET_DATA_SEED) || 0);
+        case 'yahoo':
+            return createYahooProvider();
+        default:
+            throw new Error(`Unknown MARKET_DATA_PROVIDER "${name}" (expected yahoo, file or synthetic)`);
+    }
+}
+
+/**
+ * Load a symbol's prices from a provider, through the disk cache when the provider is remote.
+ * Local providers report status 'bypass'; if they fail, the symbol comes back empty with the error.
+ */
+export async function loadPrices(
+    provider: MarketDataProvider,
+    symbol: string,
+    startDate: string,
+    endDate: string,
+    forceRefresh = false
+): Promise<CachedPrices> {
+    if (provider.cacheable) {
+        return getCachedPrices(symbol, startDate, endDate, provider.fetchPrices, forceRefresh);
+    }
+    try {
+        return { prices: await provider.fetchPrices(symbol, startDate, endDate), status: 'bypass' };
+    } catch (error) {
+        console.error(`Failed to load ${symbol} from the ${provider.name} provider`, error);
+        return { prices: [], status: 'bypass', error: error instanceof Error ? error.message : String(error) };
+    }
+}
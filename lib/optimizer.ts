@@ -0,0 +1,262 @@
+import { isCashAsset } from './crypto-assets';
+import { ANNUAL_RISK_FREE_RATE } from './finance';
+import type { DailyData } from './finance';
+import { alignedDailyReturns, sampleCovariance } from './returns';
+
+export type OptimizationObjective = 'max-sharpe' | 'min-variance' | 'target-return';
+
+export interface WeightBounds {
+    min: number; // Fraction, e.g. 0.05
+    max: number; // Fraction, e.g. 0.6
+}
+
+export interface OptimizedPortfolio {
+    weights: { [ticker: string]: number }; // Fractions summing to 1
+    expectedReturn: number; // Annualized arithmetic mean return
+    volatility: number; // Annualized
+    sharpeRatio: number;
+}
+
+export interface EfficientFrontier {
+    tickers: string[];
+    points: OptimizedPortfolio[]; // Ordered from lowest to highest volatility
+    minVariance: OptimizedPortfolio;
+    maxSharpe: OptimizedPortfolio;
+    target?: OptimizedPortfolio; // Lowest-volatility portfolio reaching the requested target return
+    observations: number; // Days of returns behind the estimates
+}
+
+// Fewest daily returns the mean/covariance estimates are built from
+const MIN_OPTIMIZER_OBSERVATIONS = 30;
+const FRONTIER_POINTS = 40;
+const SOLVER_ITERATIONS = 2000;
+
+interface ReturnEstimates {
+    expectedReturns: number[]; // Annualized
+    covariance: number[][]; // Annualized
+    observations: number;
+}
+
+// Helper to estimate annualized mean returns and covariance from days where every asset traded.
+// Cash sleeves are riskless and expected to return the cash yield.
+function estimateReturns(marketData: DailyData[], tickers: string[], cashYield: number): ReturnEstimates {
+    const returns = alignedDailyReturns(marketData, tickers);
+    const n = returns.length > 0 ? returns[0].length : 0;
+    const expectedReturns = returns.map((series, k) => isCashAsset(tickers[k])
+        ? cashYield
+        : (series.reduce((a, b) => a + b, 0) / Math.max(1, n)) * 365);
+    return { expectedReturns, covariance: sampleCovariance(returns, 365), observations: n };
+}
+
+// Helper to project weights onto { Σw = 1, min ≤ w ≤ max } by bisecting on a common shift
+function projectOntoBounds(weights: number[], bounds: WeightBounds[]): number[] {
+    const shifted = (shift: number) => weights.map((w, k) => Math.min(bounds[k].max, Math.max(bounds[k].min, w - shift)));
+    const total = (shift: number) => shifted(shift).reduce((a, b) => a + b, 0);
+
+    let low = Math.min(...weights) - 1;
+    let high = Math.max(...weights) + 1;
+    for (let i = 0; i < 100; i++) {
+        const mid = (low + high) / 2;
+        if (total(mid) > 1) low = mid; else high = mid;
+    }
+    return shifted((low + high) / 2);
+}
+
+// Helper for the largest eigenvalue of a covariance matrix (power iteration), used as the step size bound
+function largestEigenvalue(matrix: number[][]): number {
+    let vector = matrix.map(() => 1 / Math.sqrt(matrix.length));
+    let eigenvalue = 0;
+    for (let i = 0; i < 100; i++) {
+        const next = matrix.map(row => row.reduce((sum, c, k) => sum + c * vector[k], 0));
+        const norm = Math.sqrt(next.reduce((sum, v) => sum + v * v, 0));
+        if (norm === 0) return 0;
+        eigenvalue = norm;
+        vector = next.map(v => v / norm);
+    }
+    return eigenvalue;
+}
+
+// Helper to maximize μᵀw − (riskAversion / 2) wᵀΣw within the bounds by projected gradient ascent
+function solveMeanVariance(
+    estimates: ReturnEstimates,
+    bounds: WeightBounds[],
+    riskAversion: number,
+    maxEigenvalue: number
+): number[] {
+    const { expectedReturns, covariance } = estimates;
+    const step = 1 / (riskAversion * maxEigenvalue + 1e-9);
+    let weights = projectOntoBounds(expectedReturns.map(() => 1 / expectedReturns.length), bounds);
+
+    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+        const gradient = weights.map((_, k) =>
+            expectedReturns[k] - riskAversion * covariance[k].reduce((sum, c, j) => sum + c * weights[j], 0)
+        );
+        const next = projectOntoBounds(weights.map((w, k) => w + step * gradient[k]), bounds);
+        const change = next.reduce((sum, w, k) => sum + Math.abs(w - weights[k]), 0);
+        weights = next;
+        if (change < 1e-10) break;
+    }
+    return weights;
+}
+
+// Helper to describe a weight vector by its expected return, volatility and Sharpe ratio
+function describePortfolio(
+    tickers: string[],
+    weights: number[],
+    estimates: ReturnEstimates,
+    riskFreeRate: number
+): OptimizedPortfolio {
+    const expectedReturn = weights.reduce((sum, w, k) => sum + w * estimates.expectedReturns[k], 0);
+    const variance = weights.reduce((sum, w, k) =>
+        sum + w * estimates.covariance[k].reduce((inner, c, j) => inner + c * weights[j], 0), 0);
+    const volatility = Math.sqrt(Math.max(0, variance));
+    const result: { [ticker: string]: number } = {};
+    tickers.forEach((ticker, k) => { result[ticker] = weights[k]; });
+    return {
+        weights: result,
+        expectedReturn,
+        volatility,
+        sharpeRatio: volatility > 0 ? (expectedReturn - riskFreeRate) / volatility : 0
+    };
+}
+
+/**
+ * Check per-asset bounds can hold a fully invested portfolio: each min ≤ max, Σmin ≤ 1 ≤ Σmax.
+ * @returns An error message, or null if the bounds are feasible
+ */
+export function validateWeightBounds(bounds: WeightBounds[]): string | null {
+    if (bounds.some(b => b.min < 0 || b.max > 1 || b.min > b.max)) {
+        return 'Each minimum must be between 0% and its maximum, and each maximum at most 100%';
+    }
+    const totalMin = bounds.reduce((sum, b) => sum + b.min, 0);
+    const totalMax = bounds.reduce((sum, b) => sum + b.max, 0);
+    if (totalMin > 1 + 1e-9) return 'Minimum weights add up to more than 100%';
+    if (totalMax < 1 - 1e-9) return 'Maximum weights add up to less than 100%';
+    return null;
+}
+
+/**
+ * Trace the long-only efficient frontier of the given assets under per-asset weight bounds.
+ * Expected returns and covariance are annualized from daily returns (365 days), so results
+ * describe the historical period, not a forecast. Sweeps risk aversion from the maximum-return
+ * corner down to the minimum-variance portfolio, then refines the maximum Sharpe point.
+ * @param targetReturn - Annualized return for the target-return portfolio, if wanted
+ * @param cashYield - Annual yield (decimal) of cash sleeves, which are modelled as riskless
+ * @returns null when there are too few overlapping returns or the bounds are infeasible
+ */
+export function calculateEfficientFrontier(
+    marketData: DailyData[],
+    tickers: string[],
+    bounds: { [ticker: string]: WeightBounds } = {},
+    riskFreeRate: number = ANNUAL_RISK_FREE_RATE,
+    targetReturn?: number,
+    cashYield = 0
+): EfficientFrontier | null {
+    if (tickers.length === 0) return null;
+    const boundList = tickers.map(ticker => bounds[ticker] ?? { min: 0, max: 1 });
+    if (validateWeightBounds(boundList) !== null) return null;
+
+    const estimates = estimateReturns(marketData, tickers, cashYield);
+    if (estimates.observations < MIN_OPTIMIZER_OBSERVATIONS) return null;
+
+    const maxEigenvalue = largestEigenvalue(estimates.covariance);
+    const describe = (weights: number[]) => describePortfolio(tickers, weights, estimates, riskFreeRate);
+
+    // Minimum variance ignores returns entirely
+    const minVariance = describe(solveMeanVariance(
+        { ...estimates, expectedReturns: estimates.expectedReturns.map(() => 0) }, boundList, 1, maxEigenvalue
+    ));
+
+    // Risk aversion on a log scale relative to the size of the covariance matrix
+    const scale = maxEigenvalue > 0 ? 1 / maxEigenvalue : 1;
+    const logLow = Math.log(scale * 1e-2);
+    const logHigh = Math.log(scale * 1e4);
+    const solveAt = (logAversion: number) => describe(solveMeanVariance(estimates, boundList, Math.exp(logAversion), maxEigenvalue));
+
+    const sweep: { logAversion: number; portfolio: OptimizedPortfolio }[] = [];
+    for (let i = 0; i < FRONTIER_POINTS; i++) {
+        const logAversion = logLow + (logHigh - logLow) * i / (FRONTIER_POINTS - 1);
+        sweep.push({ logAversion, portfolio: solveAt(logAversion) });
+    }
+
+    // Golden-section search on risk aversion around the best Sharpe ratio from the sweep
+    const bestIndex = sweep.reduce((best, point, i) =>
+        point.portfolio.sharpeRatio > sweep[best].portfolio.sharpeRatio ? i : best, 0);
+    let low = sweep[Math.max(0, bestIndex - 1)].logAversion;
+    let high = sweep[Math.min(sweep.length - 1, bestIndex + 1)].logAversion;
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    for (let i = 0; i < 30; i++) {
+        const left = high - ratio * (high - low);
+        const right = low + ratio * (high - low);
+        if (solveAt(left).sharpeRatio >= solveAt(right).sharpeRatio) high = right; else low = left;
+    }
+    const refined = solveAt((low + high) / 2);
+    const maxSharpe = refined.sharpeRatio >= sweep[bestIndex].portfolio.sharpeRatio ? refined : sweep[bestIndex].portfolio;
+
+    // Keep the efficient part only: returns at or above the minimum-variance portfolio's
+    const points = [minVariance, ...sweep.map(point => point.portfolio)]
+        .filter(point => point.expectedReturn >= minVariance.expectedReturn - 1e-9)
+        .sort((a, b) => a.volatility - b.volatility)
+        .filter((point, i, all) => i === 0 || point.volatility - all[i - 1].volatility > 1e-6);
+
+    // Expected return falls as risk aversion rises, so bisect for the target; targets outside
+    // the frontier get its nearest end
+    let target: OptimizedPortfolio | undefined;
+    if (targetReturn !== undefined) {
+        const highestReturn = sweep[0].portfolio;
+        if (targetReturn <= minVariance.expectedReturn) {
+            target = minVariance;
+        } else if (targetReturn >= highestReturn.expectedReturn) {
+            target = highestReturn;
+        } else {
+            let lowAversion = logLow;
+            let highAversion = logHigh;
+            for (let i = 0; i < 30; i++) {
+                const mid = (lowAversion + highAversion) / 2;
+                if (solveAt(mid).expectedReturn >= targetReturn) lowAversion = mid; else highAversion = mid;
+            }
+            target = solveAt(lowAversion);
+        }
+    }
+
+    return { tickers, points, minVariance, maxSharpe, target, observations: estimates.observations };
+}
+
+/**
+ * Expected return, volatility and Sharpe ratio of a given allocation, on the same estimates the
+ * frontier uses. Weights are normalized to sum to 1.
+ */
+export function evaluateWeights(
+    marketData: DailyData[],
+    tickers: string[],
+    weights: { [ticker: string]: number },
+    riskFreeRate: number = ANNUAL_RISK_FREE_RATE,
+    cashYield = 0
+): OptimizedPortfolio | null {
+    const estimates = estimateReturns(marketData, tickers, cashYield);
+    const total = tickers.reduce((sum, ticker) => sum + (weights[ticker] || 0), 0);
+    if (estimates.observations < MIN_OPTIMIZER_OBSERVATIONS || total <= 0) return null;
+    return describePortfolio(tickers, tickers.map(ticker => (weights[ticker] || 0) / total), estimates, riskFreeRate);
+}
+
+/**
+ * Round fractional weights to whole percentages that add up to exactly 100, giving the leftover
+ * points to the largest remainders (the allocator only accepts whole percentages).
+ */
+export function roundWeightsToPercent(weights: { [ticker: string]: number }): { [ticker: string]: number } {
+    const entries = Object.entries(weights).map(([ticker, weight]) => ({
+        ticker,
+        floor: Math.floor(weight * 100),
+        remainder: weight * 100 - Math.floor(weight * 100)
+    }));
+    let leftover = 100 - entries.reduce((sum, entry) => sum + entry.floor, 0);
+    const result: { [ticker: string]: number } = {};
+    entries.forEach(entry => { result[entry.ticker] = entry.floor; });
+    [...entries].sort((a, b) => b.remainder - a.remainder).forEach(entry => {
+        if (leftover > 0) {
+            result[entry.ticker] += 1;
+            leftover -= 1;
+        }
+    });
+    return result;
+}
@@ -0,0 +1,304 @@
+import { calculatePortfolioHistory } from './finance';
+import type { DailyData, SimulationOptions } from './finance';
+import { isCashAsset } from './crypto-assets';
+import { createRandom } from './random';
+import { alignedDailyReturns, sampleCovariance } from './returns';
+import type { RebalanceFrequency } from './types';
+
+export type ProjectionMethod = 'bootstrap' | 'normal' | 'student-t';
+
+export interface ProjectionOptions {
+    method?: ProjectionMethod;
+    years?: number;
+    paths?: number;
+    blockDays?: number; // Length of the blocks of consecutive days drawn by 'bootstrap'
+    degreesOfFreedom?: number; // Tail heaviness for 'student-t' (> 2)
+    seed?: number; // Same seed, same paths
+    simulation?: SimulationOptions; // Rebalancing, cash flows, costs and yields, as in the backtest
+}
+
+export interface ProjectionPoint {
+    date: string;
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+}
+
+export interface PortfolioProjection {
+    points: ProjectionPoint[]; // Percentiles of portfolio value over time
+    finalValues: number[]; // Value at the horizon, one per path
+    invested: number[]; // Start value plus net cash flows applied, one per path
+    startValue: number;
+    paths: number;
+    observations: number; // Days of historical returns the paths are drawn from
+}
+
+export const PROJECTION_YEAR_OPTIONS = [1, 3, 5, 10, 20];
+export const PROJECTION_PATH_OPTIONS = [500, 1000, 2000, 5000];
+export const DEFAULT_PROJECTION_YEARS = 10;
+export const DEFAULT_PROJECTION_PATHS = 1000;
+export const DEFAULT_BLOCK_DAYS = 20;
+export const DEFAULT_DEGREES_OF_FREEDOM = 5;
+
+// Fewest daily returns the paths are drawn from
+const MIN_PROJECTION_OBSERVATIONS = 30;
+// Longest weighting lookback; that much real history is shown to a weighting rule ahead of each path
+const WEIGHTING_HISTORY_DAYS = 365;
+// Roughly this many fan chart points, whatever the horizon
+const PROJECTION_SAMPLES = 120;
+// Longest stretch projectPortfolioInBatches keeps the main thread busy between yields
+const PROJECTION_YIELD_MS = 50;
+
+// Helper for a standard normal draw (Box-Muller)
+function normalDraw(random: () => number): number {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Helper for the lower-triangular Cholesky factor of a covariance matrix; a small ridge keeps
+// duplicate or perfectly correlated assets from making it singular
+function choleskyFactor(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    const lower = matrix.map(() => new Array<number>(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = matrix[i][j];
+            for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+            if (i === j) {
+                lower[i][i] = Math.sqrt(Math.max(sum, matrix[i][i] * 1e-8 + 1e-14));
+            } else {
+                lower[i][j] = sum / lower[j][j];
+            }
+        }
+    }
+    return lower;
+}
+
+// Helper to collect daily log returns of each ticker on days where all of them traded (rows are days)
+function historicalLogReturns(marketData: DailyData[], tickers: string[]): number[][] {
+    const returns = alignedDailyReturns(marketData, tickers, true);
+    return returns.length > 0 ? returns[0].map((_, day) => returns.map(series => series[day])) : [];
+}
+
+// Helper to build a sampler of one day's log returns for every ticker
+function createReturnSampler(
+    rows: number[][],
+    method: ProjectionMethod,
+    blockDays: number,
+    degreesOfFreedom: number,
+    random: () => number
+): () => number[] {
+    const n = rows[0].length;
+
+    if (method === 'bootstrap') {
+        // Whole days are drawn in runs, keeping cross-asset correlation and volatility clustering
+        const blockLength = Math.max(1, Math.min(Math.round(blockDays), rows.length));
+        let position = 0;
+        let remaining = 0;
+        return () => {
+            if (remaining === 0) {
+                position = Math.floor(random() * (rows.length - blockLength + 1));
+                remaining = blockLength;
+            }
+            remaining--;
+            return rows[position++];
+        };
+    }
+
+    const means = new Array<number>(n).fill(0);
+    rows.forEach(row => row.forEach((r, k) => { means[k] += r / rows.length; }));
+    const lower = choleskyFactor(sampleCovariance(means.map((_, k) => rows.map(row => row[k]))));
+
+    // Student-t draws are normal draws over √(χ²/ν), rescaled so the covariance still matches
+    const nu = Math.max(2.5, degreesOfFreedom);
+    const tScale = Math.sqrt((nu - 2) / nu);
+    return () => {
+        const z = means.map(() => normalDraw(random));
+        let scale = 1;
+        if (method === 'student-t') {
+            let chiSquared = 0;
+            for (let k = 0; k < Math.round(nu); k++) chiSquared += Math.pow(normalDraw(random), 2);
+            scale = tScale / Math.sqrt(Math.max(chiSquared, 1e-12) / Math.round(nu));
+        }
+        return means.map((mean, i) => {
+            let shock = 0;
+            for (let k = 0; k <= i; k++) shock += lower[i][k] * z[k];
+            return mean + shock * scale;
+        });
+    };
+}
+
+// Helper for the p-th percentile (0-1) of an ascending array, interpolating between ranks
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = p * (sorted.length - 1);
+    const low = Math.floor(rank);
+    const high = Math.ceil(rank);
+    return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+interface ProjectionRun {
+    pathCount: number;
+    runPath: () => void; // Simulates the next path
+    finish: () => PortfolioProjection;
+}
+
+// Helper to check the inputs and fit the return sampler, returning a runner that simulates one path
+// at a time; null when there isn't enough history
+function prepareProjection(
+    marketData: DailyData[],
+    weights: { [ticker: string]: number },
+    startValue: number,
+    rebalanceFrequency: RebalanceFrequency,
+    options: ProjectionOptions
+): ProjectionRun | null {
+    const method = options.method ?? 'bootstrap';
+    const horizonDays = Math.max(1, Math.round((options.years ?? DEFAULT_PROJECTION_YEARS) * 365));
+    const pathCount = Math.max(1, Math.round(options.paths ?? DEFAULT_PROJECTION_PATHS));
+    const random = createRandom(options.seed ?? 1);
+
+    const lastDay = marketData[marketData.length - 1];
+    if (!lastDay || startValue <= 0) return null;
+
+    // Cash sleeves are priced from their yield inside the simulation; everything else needs returns
+    const tickers = Object.keys(weights).filter(ticker => weights[ticker] > 0 && !isCashAsset(ticker));
+    if (tickers.some(ticker => !((lastDay[ticker] as number) > 0))) return null;
+    const rows = historicalLogReturns(marketData, tickers);
+    if (tickers.length > 0 && rows.length < MIN_PROJECTION_OBSERVATIONS) return null;
+    const sampleReturns = tickers.length > 0
+        ? createReturnSampler(rows, method, options.blockDays ?? DEFAULT_BLOCK_DAYS, options.degreesOfFreedom ?? DEFAULT_DEGREES_OF_FREEDOM, random)
+        : () => [];
+
+    // Day 0 is today; future dates are calendar days, like the crypto history
+    const startTime = new Date(lastDay.date).getTime();
+    const dates = Array.from({ length: horizonDays + 1 }, (_, day) =>
+        new Date(startTime + day * 24 * 3600 * 1000).toISOString().split('T')[0]
+    );
+    const sampleStep = Math.max(1, Math.round(horizonDays / PROJECTION_SAMPLES));
+    const sampleDays = dates.map((_, day) => day).filter(day => day % sampleStep === 0 || day === horizonDays);
+
+    const simulation: SimulationOptions = { ...options.simulation, recordLedger: false, weightingHistory: undefined };
+    // Weighting rules see the recent real history (including any before the backtest) ahead of the simulated days
+    const weighting = simulation.weighting;
+    if (weighting) {
+        // The path's day 0 is the last real day, so it replaces it
+        const realHistory = options.simulation?.weightingHistory?.concat(marketData) ?? marketData;
+        const recentHistory = realHistory.slice(-(WEIGHTING_HISTORY_DAYS + 1), -1);
+        simulation.weighting = (history, weightingTickers) =>
+            weighting(recentHistory.concat(history.slice(-WEIGHTING_HISTORY_DAYS)), weightingTickers);
+    }
+
+    const sampledValues: number[][] = sampleDays.map(() => []);
+    const finalValues: number[] = [];
+    const invested: number[] = [];
+
+    const runPath = () => {
+        const prices = tickers.map(ticker => lastDay[ticker] as number);
+        const pathData: DailyData[] = dates.map((date, day) => {
+            if (day > 0) {
+                const returns = sampleReturns();
+                tickers.forEach((_, k) => { prices[k] *= Math.exp(returns[k]); });
+            }
+            const dayData: DailyData = { date };
+            tickers.forEach((ticker, k) => { dayData[ticker] = prices[k]; });
+            return dayData;
+        });
+
+        const history = calculatePortfolioHistory(pathData, weights, startValue, rebalanceFrequency, simulation);
+        sampleDays.forEach((day, s) => sampledValues[s].push(history.values[day]?.value ?? 0));
+        finalValues.push(history.values[history.values.length - 1]?.value ?? 0);
+        invested.push(startValue + history.cashFlows.reduce((sum, flow) => sum + flow.amount, 0));
+    };
+
+    const finish = (): PortfolioProjection => {
+        const points: ProjectionPoint[] = sampleDays.map((day, s) => {
+            const sorted = sampledValues[s].sort((a, b) => a - b);
+            return {
+                date: dates[day],
+                p5: percentile(sorted, 0.05),
+                p25: percentile(sorted, 0.25),
+                p50: percentile(sorted, 0.5),
+                p75: percentile(sorted, 0.75),
+                p95: percentile(sorted, 0.95)
+            };
+        });
+        return { points, finalValues, invested, startValue, paths: pathCount, observations: rows.length };
+    };
+
+    return { pathCount, runPath, finish };
+}
+
+/**
+ * Project the portfolio forward with Monte Carlo price paths.
+ * Each path starts from the last prices in marketData and draws daily returns either in blocks from
+ * history ('bootstrap') or from a multivariate normal / Student-t fitted to the historical log
+ * returns. The path is then run through calculatePortfolioHistory, so rebalancing, cash flows,
+ * costs, cash yield and weighting rules behave exactly as in the backtest.
+ * @param weights - Target weights (percentages) to hold from today
+ * @param startValue - Portfolio value today
+ * @returns null when fewer than 30 days of history overlap across the non-cash assets
+ */
+export function projectPortfolio(
+    marketData: DailyData[],
+    weights: { [ticker: string]: number },
+    startValue: number,
+    rebalanceFrequency: RebalanceFrequency = 'none',
+    options: ProjectionOptions = {}
+): PortfolioProjection | null {
+    const run = prepareProjection(marketData, weights, startValue, rebalanceFrequency, options);
+    if (!run) return null;
+    for (let path = 0; path < run.pathCount; path++) run.runPath();
+    return run.finish();
+}
+
+/**
+ * projectPortfolio for the browser: hands the main thread back every PROJECTION_YIELD_MS so the
+ * page stays responsive, reporting the share of paths done (0-1) each time. The same seed gives
+ * the same result as projectPortfolio.
+ */
+export async function projectPortfolioInBatches(
+    marketData: DailyData[],
+    weights: { [ticker: string]: number },
+    startValue: number,
+    rebalanceFrequency: RebalanceFrequency = 'none',
+    options: ProjectionOptions = {},
+    onProgress?: (fraction: number) => void
+): Promise<PortfolioProjection | null> {
+    const run = prepareProjection(marketData, weights, startValue, rebalanceFrequency, options);
+    if (!run) return null;
+    let lastYield = Date.now();
+    for (let path = 0; path < run.pathCount; path++) {
+        run.runPath();
+        if (Date.now() - lastYield >= PROJECTION_YIELD_MS) {
+            onProgress?.((path + 1) / run.pathCount);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = Date.now();
+        }
+    }
+    return run.finish();
+}
+
+/**
+ * Share of projected paths that end at or above a goal, and that end down more than a given
+ * percentage of the money put in (start value plus net contributions).
+ */
+export function calculateProjectionOdds(
+    projection: PortfolioProjection,
+    goal: number | null,
+    lossPercent: number
+): { goalProbability: number | null; lossProbability: number } {
+    const count = projection.finalValues.length;
+    if (count === 0) return { goalProbability: goal === null ? null : 0, lossProbability: 0 };
+
+    const reached = goal === null ? 0 : projection.finalValues.filter(value => value >= goal).length;
+    const lost = projection.finalValues.filter((value, path) =>
+        value < projection.invested[path] * (1 - lossPercent / 100)
+    ).length;
+
+    return {
+        goalProbability: goal === null ? null : reached / count,
+        lossProbability: lost / count
+    };
+}
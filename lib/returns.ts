@@ -0,0 +1,40 @@
+import { isCashAsset } from './crypto-assets';
+import type { DailyData } from './finance';
+
+/**
+ * Daily returns of each ticker (one series per ticker, in order) over the days where every priced
+ * ticker traded. Cash sleeves have no market data column, so they count as riskless: a flat 0
+ * return on each of those days.
+ * @param log - Log returns instead of simple returns
+ */
+export function alignedDailyReturns(marketData: DailyData[], tickers: string[], log = false): number[][] {
+    const pricedTickers = tickers.filter(ticker => !isCashAsset(ticker));
+    const returns: number[][] = tickers.map(() => []);
+    for (let i = 1; i < marketData.length; i++) {
+        const prev = marketData[i - 1];
+        const curr = marketData[i];
+        if (!pricedTickers.every(ticker => (prev[ticker] as number) > 0 && (curr[ticker] as number) > 0)) continue;
+        tickers.forEach((ticker, k) => {
+            const ratio = isCashAsset(ticker) ? 1 : (curr[ticker] as number) / (prev[ticker] as number);
+            returns[k].push(log ? Math.log(ratio) : ratio - 1);
+        });
+    }
+    return returns;
+}
+
+/**
+ * Sample covariance matrix (n − 1 denominator) of aligned return series, multiplied by scale
+ * (e.g. 365 to annualize daily returns). Fewer than two observations give a zero matrix.
+ */
+export function sampleCovariance(returns: number[][], scale = 1): number[][] {
+    const n = returns.length > 0 ? returns[0].length : 0;
+    const means = returns.map(series => series.reduce((a, b) => a + b, 0) / Math.max(1, n));
+    return returns.map((_, a) => returns.map((_, b) => {
+        if (n < 2) return 0;
+        let sum = 0;
+        for (let t = 0; t < n; t++) {
+            sum += (returns[a][t] - means[a]) * (returns[b][t] - means[b]);
+        }
+        return (sum / (n - 1)) * scale;
+    }));
+}
@@ -0,0 +1,178 @@
+import { calculateTimeWeightedValues } from './finance';
+import type { CashFlow } from './finance';
+
+export type VaRMethod = 'historical' | 'parametric' | 'cornish-fisher';
+
+export interface VaREstimate {
+    method: VaRMethod;
+    confidence: number; // e.g., 0.95
+    horizonDays: number; // 1 or 30
+    valueAtRisk: number; // Loss as a positive fraction of portfolio value
+    expectedShortfall: number; // Average loss beyond VaR (CVaR), positive fraction
+    valueAtRiskAmount: number; // In dollars on the final balance
+    expectedShortfallAmount: number;
+}
+
+export interface RiskReport {
+    estimates: VaREstimate[];
+    observations: number; // Daily returns used
+    skewness: number;
+    excessKurtosis: number;
+}
+
+export const VAR_CONFIDENCE_LEVELS = [0.95, 0.99];
+export const VAR_HORIZONS = [1, 30]; // 1 day and 1 month of crypto (365-day) trading
+export const VAR_METHODS: VaRMethod[] = ['historical', 'parametric', 'cornish-fisher'];
+
+// Historical VaR needs enough horizon returns to read a 99% tail off the empirical distribution
+const MIN_HISTORICAL_OBSERVATIONS = 100;
+
+// Helper for the inverse standard normal CDF (Acklam's rational approximation, |error| < 1.2e-9)
+function inverseNormalCdf(p: number): number {
+    const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+    const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+    const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+    const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+    const pLow = 0.02425;
+
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - pLow) {
+        return -inverseNormalCdf(1 - p);
+    }
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+        (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Helper for the standard normal density
+function normalPdf(z: number): number {
+    return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+// Helper to adjust a normal quantile for skewness and excess kurtosis (Cornish-Fisher expansion)
+function cornishFisherQuantile(z: number, skewness: number, excessKurtosis: number): number {
+    return z +
+        (z * z - 1) * skewness / 6 +
+        (z * z * z - 3 * z) * excessKurtosis / 24 -
+        (2 * z * z * z - 5 * z) * skewness * skewness / 36;
+}
+
+// Helper to compute compounded returns over every overlapping window of `horizon` days
+function horizonReturns(dailyReturns: number[], horizon: number): number[] {
+    if (horizon === 1) return dailyReturns;
+    const results: number[] = [];
+    for (let i = horizon; i <= dailyReturns.length; i++) {
+        let growth = 1;
+        for (let j = i - horizon; j < i; j++) {
+            growth *= 1 + dailyReturns[j];
+        }
+        results.push(growth - 1);
+    }
+    return results;
+}
+
+/**
+ * Value-at-Risk and Expected Shortfall (CVaR) of the portfolio.
+ * Returns are measured on the flow-neutral (time-weighted) series, and losses are
+ * expressed as positive fractions and as dollars on the final balance.
+ * - historical: empirical quantile of overlapping horizon returns
+ * - parametric: Gaussian fit of daily returns, scaled by the horizon (mean × h, sigma × √h)
+ * - cornish-fisher: the Gaussian quantile adjusted for skewness and excess kurtosis, which are
+ *   scaled to the horizon assuming independent days (skew / √h, kurtosis / h)
+ */
+export function calculateRiskReport(
+    portfolioValues: { date: string; value: number }[],
+    finalBalance: number,
+    cashFlows: CashFlow[] = []
+): RiskReport {
+    const performanceValues = calculateTimeWeightedValues(portfolioValues, cashFlows);
+
+    const dailyReturns: number[] = [];
+    for (let i = 1; i < performanceValues.length; i++) {
+        if (performanceValues[i - 1].value <= 0) continue; // Not yet funded
+        dailyReturns.push((performanceValues[i].value / performanceValues[i - 1].value) - 1);
+    }
+
+    if (dailyReturns.length < 2) {
+        return { estimates: [], observations: dailyReturns.length, skewness: 0, excessKurtosis: 0 };
+    }
+
+    // Moments of daily returns
+    const n = dailyReturns.length;
+    const mean = dailyReturns.reduce((a, b) => a + b, 0) / n;
+    const variance = dailyReturns.reduce((a, r) => a + Math.pow(r - mean, 2), 0) / n;
+    const stdDev = Math.sqrt(variance);
+    const skewness = stdDev > 0
+        ? dailyReturns.reduce((a, r) => a + Math.pow((r - mean) / stdDev, 3), 0) / n
+        : 0;
+    const excessKurtosis = stdDev > 0
+        ? dailyReturns.reduce((a, r) => a + Math.pow((r - mean) / stdDev, 4), 0) / n - 3
+        : 0;
+
+    const estimates: VaREstimate[] = [];
+    const addEstimate = (method: VaRMethod, confidence: number, horizonDays: number, valueAtRisk: number, expectedShortfall: number) => {
+        estimates.push({
+            method,
+            confidence,
+            horizonDays,
+            valueAtRisk,
+            expectedShortfall,
+            valueAtRiskAmount: valueAtRisk * finalBalance,
+            expectedShortfallAmount: expectedShortfall * finalBalance,
+        });
+    };
+
+    VAR_HORIZONS.forEach(horizon => {
+        const horizonMean = mean * horizon;
+        const horizonStdDev = stdDev * Math.sqrt(horizon);
+        const horizonSkewness = skewness / Math.sqrt(horizon);
+        const horizonKurtosis = excessKurtosis / horizon;
+        const sortedReturns = horizonReturns(dailyReturns, horizon).slice().sort((a, b) => a - b);
+
+        VAR_CONFIDENCE_LEVELS.forEach(confidence => {
+            const tail = 1 - confidence;
+
+            // Historical simulation: the tail quantile, and the average of returns at or below it
+            if (sortedReturns.length >= MIN_HISTORICAL_OBSERVATIONS) {
+                const tailCount = Math.max(1, Math.floor(sortedReturns.length * tail));
+                const quantile = sortedReturns[tailCount - 1];
+                const tailReturns = sortedReturns.slice(0, tailCount);
+                const tailMean = tailReturns.reduce((a, b) => a + b, 0) / tailReturns.length;
+                addEstimate('historical', confidence, horizon, -quantile, -tailMean);
+            }
+
+            // Gaussian parametric: ES = -(mu - sigma × pdf(z) / tail)
+            const z = inverseNormalCdf(tail);
+            addEstimate(
+                'parametric',
+                confidence,
+                horizon,
+                -(horizonMean + z * horizonStdDev),
+                -(horizonMean - horizonStdDev * normalPdf(z) / tail)
+            );
+
+            // Cornish-Fisher: ES is the average of the adjusted quantiles across the tail
+            const zCf = cornishFisherQuantile(z, horizonSkewness, horizonKurtosis);
+            const steps = 100;
+            let tailQuantileSum = 0;
+            for (let step = 0; step < steps; step++) {
+                const p = tail * (step + 0.5) / steps;
+                tailQuantileSum += cornishFisherQuantile(inverseNormalCdf(p), horizonSkewness, horizonKurtosis);
+            }
+            addEstimate(
+                'cornish-fisher',
+                confidence,
+                horizon,
+                -(horizonMean + zCf * horizonStdDev),
+                -(horizonMean + (tailQuantileSum / steps) * horizonStdDev)
+            );
+        });
+    });
+
+    return { estimates, observations: n, skewness, excessKurtosis };
+}
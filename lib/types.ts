@@ -1,4 +1,60 @@
-export type RebalanceFrequency = 'none' | 'quarterly' | 'annually';
+export type RebalanceFrequency =
+    | 'none'
+    | 'daily'
+    | 'weekly'
+    | 'biweekly'
+    | 'monthly'
+    | 'quarterly'
+    | 'semiannually'
+    | 'annually'
+    | 'threshold';
+
+// Which day within each calendar period a rebalance happens on
+export interface RebalanceAnchor {
+    type: 'first-trading-day' | 'period-end' | 'day-of-month';
+    dayOfMonth?: number;                 // 1-31, used with 'day-of-month' (clamped to short months)
+}
+
+// Tolerance bands for drift-based rebalancing; a band set to 0 is disabled
+export interface RebalanceBands {
+    absolute: number;                    // Max drift in percentage points (e.g., 5 = target 20% may range 15-25%)
+    relative: number;                    // Max drift as % of target weight (e.g., 25 = target 20% may range 15-25%)
+}
+
+export interface TransactionCosts {
+    percentageFee: number;               // Fee per trade as % of notional (e.g., 0.1 = 0.1%)
+    fixedFee: number;                    // Flat fee per trade in dollars
+    slippageBps: number;                 // Execution slippage in basis points of notional
+}
+
+// How the allocation to an asset that hasn't listed yet is handled until it starts trading:
+// held in cash then bought in, spread pro-rata over listed assets, or the backtest starts later
+export type PreListingPolicy = 'cash' | 'redistribute' | 'start-at-listing';
+
+export interface CashYield {
+    source: 'fixed' | 'risk-free';       // Fixed APY, or accrue at ANNUAL_RISK_FREE_RATE
+    apy: number;                         // Annual yield in % (e.g., 4.5), used when source is 'fixed'
+}
+
+export type CashFlowFrequency = 'none' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
+
+// How a cash flow is traded: split by target weights (withdrawals sell pro-rata to current
+// holdings) or used to trade the whole portfolio back toward target weights
+export type CashFlowAllocation = 'target-weights' | 'rebalance';
+
+// How target weights are set: by hand, or by a rule re-run at every rebalance over a lookback window
+export type WeightingScheme = 'manual' | 'equal' | 'inverse-volatility' | 'risk-parity' | 'market-cap';
+
+// Sampling of prices before returns are correlated
+export type ReturnFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface CashFlowSchedule {
+    type: 'contribution' | 'withdrawal';
+    amount: number;                      // Dollars per occurrence (always positive)
+    frequency: CashFlowFrequency;
+    customDates?: string[];              // YYYY-MM-DD dates, used when frequency is 'custom'
+    allocation: CashFlowAllocation;
+}
 
 export interface PortfolioConfig {
     id: string;                          // Unique ID (timestamp-based)
@@ -11,6 +67,16 @@ export interface PortfolioConfig {
     startDate?: string;                  // Optional start date (YYYY-MM-DD)
     endDate?: string;                    // Optional end date (YYYY-MM-DD)
     rebalanceFrequency?: RebalanceFrequency; // Rebalancing strategy
+    rebalanceBands?: RebalanceBands;     // Drift bands (threshold mode, or hybrid with a calendar frequency)
+    rebalanceAnchor?: RebalanceAnchor;   // Day within each period that calendar rebalances occur
+    transactionCosts?: TransactionCosts; // Trading frictions applied on purchases and rebalances
+    cashFlowSchedule?: CashFlowSchedule; // Recurring contributions / withdrawals
+    preListingPolicy?: PreListingPolicy; // Handling of assets not yet listed at the start date
+    cashYield?: CashYield;               // Yield accrued by cash/stablecoin sleeves
+    compoundStakingYield?: boolean;      // Reinvest native staking rewards as additional units
+    weightingScheme?: WeightingScheme;   // Rule that sets target weights at each rebalance ('manual' uses weights)
+    weightingLookbackDays?: number;      // Lookback window for volatility-based weighting schemes
+    benchmarks?: string[];               // Benchmark tickers to compare against (e.g., ["^GSPC", "GC=F"])
 }
 
 export interface SavedPortfolios {
@@ -39,3 +105,28 @@ export interface AssetValidation {
     validAssets: string[];
     earliestValidDate: string;  // Earliest date when all selected assets are available
 }
+
+// Per-symbol checks on the prices behind the aligned market data
+export interface DataQuality {
+    symbol: string;
+    firstDate: string | null;            // First date with a price (null when there is none)
+    lastDate: string | null;             // Last date with a price
+    forwardFilledDays: number;           // Rows after the first price that carry the previous price forward
+    longestGapDays: number;              // Most calendar days between two consecutive prices, minus one
+    jumps: { date: string; change: number }[]; // Daily moves beyond the jump threshold (change as a fraction)
+    staleRuns: { startDate: string; endDate: string; days: number }[]; // Runs of an unchanged price
+    fetchFailed: boolean;                // Upstream fetch failed; any prices shown are from the cache
+    error?: string;                      // Upstream error message, when the fetch failed
+}
+
+// Outcome for each ticker the market-data route was asked for:
+// 'ok' has prices; 'stale' failed upstream but has cached prices; 'failed' failed with nothing to show;
+// 'no-data' fetched fine but has no prices in the range; 'rejected' never fetched (invalid or unsupported ticker)
+export type SymbolStatus = 'ok' | 'stale' | 'failed' | 'no-data' | 'rejected';
+
+export interface SymbolReport {
+    status: SymbolStatus;
+    error: string | null;                // Upstream or validation error, when there is one
+    firstDate: string | null;            // First date with a price in the range
+    quality?: DataQuality;               // Only for tickers that were fetched
+}
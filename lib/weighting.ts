@@ -0,0 +1,104 @@
+import { getAssetByTicker, isCashAsset } from './crypto-assets';
+import type { DailyData, WeightingFunction } from './finance';
+import { alignedDailyReturns, sampleCovariance } from './returns';
+import type { WeightingScheme } from './types';
+
+export interface WeightingOptions {
+    lookbackDays?: number; // Days of prices the volatility/covariance estimates use
+    marketCaps?: { [ticker: string]: number }; // Overrides the marketCapRank proxy when given
+}
+
+export const WEIGHTING_LOOKBACK_OPTIONS = [30, 90, 180, 365];
+export const DEFAULT_WEIGHTING_LOOKBACK = 90;
+
+// Fewest daily returns in the lookback before an asset's volatility is trusted
+const MIN_LOOKBACK_OBSERVATIONS = 10;
+
+// Helper to list the tickers with a price on the last day of the history
+function listedTickers(history: DailyData[], tickers: string[]): string[] {
+    const lastDay = history[history.length - 1];
+    return lastDay ? tickers.filter(ticker => (lastDay[ticker] as number) > 0) : [];
+}
+
+// Helper to weight tickers equally (percentages)
+function equalWeights(tickers: string[]): { [ticker: string]: number } {
+    const weights: { [ticker: string]: number } = {};
+    tickers.forEach(ticker => { weights[ticker] = 100 / tickers.length; });
+    return weights;
+}
+
+// Helper to build the daily returns of each ticker over the lookback, on days where all of them traded
+function lookbackReturns(history: DailyData[], tickers: string[], lookbackDays: number): number[][] {
+    return alignedDailyReturns(history.slice(-(lookbackDays + 1)), tickers);
+}
+
+// Helper to solve for equal risk contributions by cyclical coordinate descent: each weight is the
+// positive root of Σᵢᵢwᵢ² + (Σⱼ≠ᵢ Σᵢⱼwⱼ)wᵢ − 1/n = 0, then the result is scaled to sum to 1
+function equalRiskContributions(covariance: number[][]): number[] {
+    const n = covariance.length;
+    const weights = covariance.map((row, i) => 1 / Math.sqrt(Math.max(row[i], 1e-12)));
+    for (let cycle = 0; cycle < 200; cycle++) {
+        for (let i = 0; i < n; i++) {
+            const a = covariance[i][i];
+            const b = covariance[i].reduce((sum, c, j) => j === i ? sum : sum + c * weights[j], 0);
+            weights[i] = a > 0 ? (-b + Math.sqrt(b * b + 4 * a / n)) / (2 * a) : 0;
+        }
+    }
+    const total = weights.reduce((a, b) => a + b, 0);
+    return weights.map(w => total > 0 ? w / total : 1 / n);
+}
+
+/**
+ * Build the weighting rule calculatePortfolioHistory re-runs at each rebalance.
+ * Only assets priced on the rebalance day are weighted. Volatility-based schemes leave out cash
+ * sleeves (no volatility) and fall back to equal weights until the lookback has enough returns.
+ * Market cap uses supplied caps, or 1 / marketCapRank as a proxy.
+ * @returns undefined for 'manual', meaning the static weights apply
+ */
+export function createWeightingFunction(
+    scheme: WeightingScheme,
+    options: WeightingOptions = {}
+): WeightingFunction | undefined {
+    const lookbackDays = options.lookbackDays ?? DEFAULT_WEIGHTING_LOOKBACK;
+
+    switch (scheme) {
+        case 'equal':
+            return (history, tickers) => equalWeights(listedTickers(history, tickers));
+        case 'inverse-volatility':
+            return (history, tickers) => {
+                const candidates = listedTickers(history, tickers).filter(ticker => !isCashAsset(ticker));
+                const weights: { [ticker: string]: number } = {};
+                candidates.forEach(ticker => {
+                    const [returns] = lookbackReturns(history, [ticker], lookbackDays);
+                    if (returns.length < MIN_LOOKBACK_OBSERVATIONS) return;
+                    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+                    const volatility = Math.sqrt(returns.reduce((a, r) => a + Math.pow(r - mean, 2), 0) / (returns.length - 1));
+                    if (volatility > 0) weights[ticker] = 1 / volatility;
+                });
+                return Object.keys(weights).length > 0 ? weights : equalWeights(candidates);
+            };
+        case 'risk-parity':
+            return (history, tickers) => {
+                const candidates = listedTickers(history, tickers).filter(ticker => !isCashAsset(ticker));
+                const returns = lookbackReturns(history, candidates, lookbackDays);
+                if (candidates.length === 0 || returns[0].length < MIN_LOOKBACK_OBSERVATIONS) return equalWeights(candidates);
+                const weights: { [ticker: string]: number } = {};
+                equalRiskContributions(sampleCovariance(returns)).forEach((weight, k) => {
+                    weights[candidates[k]] = weight * 100;
+                });
+                return weights;
+            };
+        case 'market-cap':
+            return (history, tickers) => {
+                const weights: { [ticker: string]: number } = {};
+                listedTickers(history, tickers).forEach(ticker => {
+                    const rank = getAssetByTicker(ticker)?.marketCapRank;
+                    const cap = options.marketCaps?.[ticker] ?? (rank && !isCashAsset(ticker) ? 1 / rank : 0);
+                    if (cap > 0) weights[ticker] = cap;
+                });
+                return weights;
+            };
+        default:
+            return undefined;
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * Market Data Alignment Benchmark
+ * Times the map-based alignMarketData against the previous route implementation, which searched
+ * each symbol's rows with find() and re-parsed dates for every (date, symbol) pair.
+ * Usage: npm run benchmark:alignment -- [years=6] [assets=20]
+ */
+
+import { alignMarketData } from '../lib/alignment';
+import { createSyntheticProvider } from '../lib/market-data-providers';
+import type { PricePoint } from '../lib/market-data-cache';
+
+interface YahooRow {
+    date: Date;
+    adjClose: number;
+    close: number;
+}
+
+// The alignment and forward-fill the market-data route used before alignMarketData
+function legacyAlign(allData: Record<string, YahooRow[]>, assetsToFetch: string[]) {
+    const uniqueDates = new Set<string>();
+    Object.values(allData).forEach((data) => {
+        data.forEach((day) => {
+            const dateStr = day.date instanceof Date
+                ? day.date.toISOString().split('T')[0]
+                : new Date(day.date).toISOString().split('T')[0];
+            uniqueDates.add(dateStr);
+        });
+    });
+    const sortedDates = Array.from(uniqueDates).sort();
+
+    const alignedData = sortedDates.map((dateStr) => {
+        const dayRecord: Record<string, number | string | null> = { date: dateStr };
+        assetsToFetch.forEach((symbol) => {
+            const entry = allData[symbol].find((d) => {
+                const dStr = d.date instanceof Date
+                    ? d.date.toISOString().split('T')[0]
+                    : new Date(d.date).toISOString().split('T')[0];
+                return dStr === dateStr;
+            });
+            dayRecord[symbol] = entry ? entry.adjClose || entry.close : null;
+        });
+        return dayRecord;
+    });
+
+    const filledData = [];
+    const lastKnownValues: Record<string, number> = {};
+    for (const day of alignedData) {
+        const newDay: Record<string, number | string | null> = { ...day };
+        assetsToFetch.forEach(symbol => {
+            if (newDay[symbol] !== null && newDay[symbol] !== undefined) {
+                lastKnownValues[symbol] = newDay[symbol] as number;
+            } else if (lastKnownValues[symbol] !== undefined) {
+                newDay[symbol] = lastKnownValues[symbol];
+            } else {
+                newDay[symbol] = 0;
+            }
+        });
+        filledData.push(newDay);
+    }
+    return filledData;
+}
+
+async function benchmarkAlignment() {
+    const years = Number(process.argv[2]) || 6;
+    const assetCount = Number(process.argv[3]) || 20;
+
+    console.log('='.repeat(80));
+    console.log('MARKET DATA ALIGNMENT BENCHMARK');
+    console.log('='.repeat(80));
+
+    // Half crypto (every day), half stock-like (weekdays only), with staggered listing dates
+    const endDate = '2025-12-31';
+    const startDate = `${2026 - years}-01-01`;
+    const provider = createSyntheticProvider();
+    const symbols = Array.from({ length: assetCount }, (_, i) => i % 2 === 0 ? `COIN${i}-USD` : `STOCK${i}`);
+    const series: { [symbol: string]: PricePoint[] } = {};
+    for (const [i, symbol] of symbols.entries()) {
+        const listingDate = new Date(new Date(startDate).getTime() + i * 30 * 24 * 3600 * 1000).toISOString().split('T')[0];
+        series[symbol] = await provider.fetchPrices(symbol, listingDate, endDate);
+    }
+    const yahooRows: Record<string, YahooRow[]> = {};
+    symbols.forEach(symbol => {
+        yahooRows[symbol] = series[symbol].map(point => ({ date: new Date(point.date), adjClose: point.price, close: point.price }));
+    });
+    const totalRows = symbols.reduce((sum, symbol) => sum + series[symbol].length, 0);
+    console.log(`\n${assetCount} assets, ${startDate} to ${endDate}, ${totalRows.toLocaleString()} price rows\n`);
+
+    let start = performance.now();
+    const aligned = alignMarketData(series, symbols);
+    const alignedMs = performance.now() - start;
+    console.log(`alignMarketData: ${alignedMs.toFixed(1)} ms`);
+
+    start = performance.now();
+    const legacy = legacyAlign(yahooRows, symbols);
+    const legacyMs = performance.now() - start;
+    console.log(`Legacy find():   ${legacyMs.toFixed(1)} ms`);
+
+    const identical = aligned.length === legacy.length &&
+        aligned.every((row, i) => symbols.every(symbol => row[symbol] === legacy[i][symbol]) && row.date === legacy[i].date);
+    console.log(`\nSpeedup: ${(legacyMs / alignedMs).toFixed(0)}x`);
+    console.log(`Identical output (${aligned.length} rows): ${identical}`);
+}
+
+benchmarkAlignment();
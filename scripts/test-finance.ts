@@ -1,4 +1,11 @@
-import { calculateMetrics, calculatePortfolioHistory } from '../lib/finance';
+import { calculateBenchmarkMetrics, calculateCorrelationMatrix, calculateDrawdownAnalysis, calculateMetrics, calculatePortfolioHistory, calculateRollingMetrics } from '../lib/finance';
+import { calculateRiskReport } from '../lib/risk';
+import { calculateAttribution } from '../lib/attribution';
+import { calculateEfficientFrontier, evaluateWeights, roundWeightsToPercent } from '../lib/optimizer';
+import { createWeightingFunction } from '../lib/weighting';
+import { calculateProjectionOdds, projectPortfolio, projectPortfolioInBatches } from '../lib/projection';
+import { findMissingRanges } from '../lib/market-data-cache';
+import { assessDataQuality } from '../lib/data-quality';
 
 // Mock Data: Steady 10% daily growth (unrealistic but good for math check)
 // Day 0: 100
@@ -15,7 +22,7 @@ const initial = 1000;
 
 console.log('Running Verification...');
 
-const history = calculatePortfolioHistory(mockData as any, weights, initial);
+const { values: history } = calculatePortfolioHistory(mockData as any, weights, initial);
 
 console.log('History Length:', history.length);
 console.log('Day 0 Value:', history[0].value, '(Expected 1000)');
@@ -35,3 +42,250 @@ if (Math.abs(metrics.totalReturn - 0.21) < 0.0001) {
 } else {
     console.error('FAILURE: Calculation mismatch.');
 }
+
+// Transaction costs: 0.1% fee + 10 bps slippage on the Day 0 purchase
+// Investable x satisfies x + 0.002x = 1000, so x = 998.004 and costs = 1.996
+const withCosts = calculatePortfolioHistory(mockData, weights, initial, 'none', {
+    transactionCosts: { percentageFee: 0.1, fixedFee: 0, slippageBps: 10 },
+});
+console.log('Total Costs:', withCosts.totalCosts, '(Expected ~1.996)');
+console.log('Day 0 Value (net of costs):', withCosts.values[0].value, '(Expected ~998.004)');
+
+// Cash flows: $100 weekly contributions over four weeks of flat prices
+// Net invested grows to $1,400 while the flat prices keep the time-weighted return at 0%
+const flatData = Array.from({ length: 29 }, (_, i) => ({
+    date: new Date(Date.UTC(2020, 0, 1 + i)).toISOString().split('T')[0],
+    BTC: 100,
+}));
+const dca = calculatePortfolioHistory(flatData, weights, initial, 'none', {
+    cashFlowSchedule: { type: 'contribution', amount: 100, frequency: 'weekly', allocation: 'target-weights' },
+});
+const dcaMetrics = calculateMetrics(dca.values, initial, undefined, dca.cashFlows);
+console.log('Contributions Applied:', dca.cashFlows.length, '(Expected 4)');
+console.log('Final Value:', dca.values[dca.values.length - 1].value, '(Expected 1400)');
+console.log('Net Invested:', dcaMetrics.netInvested, '(Expected 1400)');
+console.log('Flow-aware Total Return:', dcaMetrics.totalReturn, '(Expected 0)');
+
+// Custom cash flow dates before the start are dropped instead of all landing on day 0
+const customFlows = calculatePortfolioHistory(flatData, weights, initial, 'none', {
+    cashFlowSchedule: { type: 'contribution', amount: 100, frequency: 'custom', allocation: 'target-weights', customDates: ['2019-12-15', '2020-01-01', '2020-01-10'] },
+});
+console.log('Custom Flows Applied:', JSON.stringify(customFlows.cashFlows), '(Expected [{"date":"2020-01-10","amount":100}])');
+
+// Threshold bands: a $1 fixed fee per trade counts the trades. B jumps 25% on day 1, drifting 5.6 points
+// from its 50% target, so a 5-point band rebalances (two more trades) and a 10-point band doesn't
+const driftData = ['2020-01-01', '2020-01-02', '2020-01-03'].map((date, i) => ({ date, A: 100, B: i === 0 ? 100 : 125 }));
+const feePerTrade = { percentageFee: 0, fixedFee: 1, slippageBps: 0 };
+const tightBand = calculatePortfolioHistory(driftData, { A: 50, B: 50 }, initial, 'threshold', {
+    transactionCosts: feePerTrade,
+    rebalanceBands: { absolute: 5, relative: 0 },
+});
+const wideBand = calculatePortfolioHistory(driftData, { A: 50, B: 50 }, initial, 'threshold', {
+    transactionCosts: feePerTrade,
+    rebalanceBands: { absolute: 10, relative: 0 },
+});
+console.log('Threshold Trades (5-point band):', tightBand.totalCosts, '(Expected 4)');
+console.log('Threshold Trades (10-point band):', wideBand.totalCosts, '(Expected 2)');
+
+// Rebalance anchors over Jan 1 - Mar 30: day 15 rebalances on Jan 15, Feb 15 and Mar 15; period-end on
+// Jan 31 and Feb 29 (the cut-short March is skipped). Each rebalance is two $1 trades on top of day 0's two
+const trendData = Array.from({ length: 90 }, (_, i) => ({
+    date: new Date(Date.UTC(2020, 0, 1 + i)).toISOString().split('T')[0],
+    A: 100,
+    B: 100 * Math.pow(1.01, i),
+}));
+const dayOfMonth = calculatePortfolioHistory(trendData, { A: 50, B: 50 }, initial, 'monthly', {
+    transactionCosts: feePerTrade,
+    rebalanceAnchor: { type: 'day-of-month', dayOfMonth: 15 },
+});
+const periodEnd = calculatePortfolioHistory(trendData, { A: 50, B: 50 }, initial, 'monthly', {
+    transactionCosts: feePerTrade,
+    rebalanceAnchor: { type: 'period-end' },
+});
+const quarterly = calculatePortfolioHistory(trendData, { A: 50, B: 50 }, initial, 'quarterly', {
+    transactionCosts: feePerTrade,
+});
+console.log('Monthly Day-15 Trades:', dayOfMonth.totalCosts, '(Expected 8)');
+console.log('Monthly Period-End Trades:', periodEnd.totalCosts, '(Expected 6)');
+console.log('Quarterly Trades:', quarterly.totalCosts, '(Expected 2)');
+
+// Trade ledger: Day 0 buy plus four weekly contribution buys, with fees adding up to total costs
+const ledgered = calculatePortfolioHistory(flatData, weights, initial, 'none', {
+    transactionCosts: { percentageFee: 0.1, fixedFee: 0, slippageBps: 0 },
+    cashFlowSchedule: { type: 'contribution', amount: 100, frequency: 'weekly', allocation: 'target-weights' },
+    recordLedger: true,
+});
+const ledgerFees = (ledgered.ledger || []).reduce((sum, trade) => sum + trade.fee, 0);
+console.log('Ledger Trades:', ledgered.ledger?.length, '(Expected 5)');
+console.log('Ledger Fees Match Total Costs:', Math.abs(ledgerFees - ledgered.totalCosts) < 1e-9);
+console.log('Final Holdings Weight:', ledgered.holdings?.[ledgered.holdings.length - 1].weights.BTC, '(Expected 1)');
+
+// Downside metrics: 100 → 50 → 100 → 110 → 99 has drawdowns of 50% and 10% across five days
+const swingValues = [100, 50, 100, 110, 99].map((value, i) => ({
+    date: new Date(Date.UTC(2021, 0, 1 + i)).toISOString().split('T')[0],
+    value,
+}));
+const swingMetrics = calculateMetrics(swingValues, 100);
+console.log('Ulcer Index:', swingMetrics.ulcerIndex, `(Expected ~${Math.sqrt((0.25 + 0.01) / 5)})`);
+console.log('Calmar Ratio:', swingMetrics.calmarRatio, `(Expected ${swingMetrics.cagr / 0.5})`);
+
+// Risk report: daily returns alternating +1% / -1% have a 0 mean and a 1% standard deviation, so the
+// 95% one-day historical VaR and ES are both 1% and the Gaussian VaR is 1.6449 standard deviations
+const alternatingValues = Array.from({ length: 201 }, (_, i) => ({
+    date: new Date(Date.UTC(2021, 0, 1 + i)).toISOString().split('T')[0],
+    value: 100 * Math.pow(1.01, Math.ceil(i / 2)) * Math.pow(0.99, Math.floor(i / 2)),
+}));
+const riskReport = calculateRiskReport(alternatingValues, 1000);
+const findEstimate = (method: string) => riskReport.estimates.find(e => e.method === method && e.confidence === 0.95 && e.horizonDays === 1);
+console.log('Historical VaR 95%:', findEstimate('historical')?.valueAtRisk.toFixed(4), '(Expected 0.0100)');
+console.log('Historical ES 95%:', findEstimate('historical')?.expectedShortfall.toFixed(4), '(Expected 0.0100)');
+console.log('Parametric VaR 95%:', findEstimate('parametric')?.valueAtRisk.toFixed(4), '(Expected 0.0164)');
+console.log('Parametric ES 95%:', findEstimate('parametric')?.expectedShortfall.toFixed(4), '(Expected 0.0206)');
+console.log('VaR Amount 95%:', findEstimate('historical')?.valueAtRiskAmount.toFixed(2), '(Expected 10.00)');
+
+// Benchmark metrics: a benchmark with the same daily returns has beta 1, correlation 1 and no tracking error
+const mirroredBenchmark = alternatingValues.map(point => ({ date: point.date, value: point.value * 3 }));
+const mirrored = calculateBenchmarkMetrics(alternatingValues, mirroredBenchmark);
+console.log('Mirrored Beta:', mirrored?.beta.toFixed(4), '(Expected 1.0000)');
+console.log('Mirrored Correlation:', mirrored?.correlation.toFixed(4), '(Expected 1.0000)');
+console.log('Mirrored Tracking Error:', mirrored?.trackingError.toFixed(4), '(Expected 0.0000)');
+console.log('Mirrored Up/Down Capture:', mirrored?.upCapture.toFixed(4), mirrored?.downCapture.toFixed(4), '(Expected 1.0000 1.0000)');
+
+// Selectable benchmarks: metrics are keyed by ticker, and a benchmark without enough overlap is left out
+const multiBenchmark = calculateMetrics(alternatingValues, 100, {
+    '^GSPC': mirroredBenchmark,
+    'GC=F': mirroredBenchmark.slice(0, 1),
+});
+console.log('Benchmark Keys:', JSON.stringify(Object.keys(multiBenchmark.benchmarkMetrics ?? {})), '(Expected ["^GSPC"])');
+console.log('S&P 500 Beta:', multiBenchmark.benchmarkMetrics?.['^GSPC'].beta.toFixed(4), '(Expected 1.0000)');
+
+// Drawdown episodes: the 50% drop recovers on day 2, the 10% drop is still open
+const swingDrawdowns = calculateDrawdownAnalysis(swingValues, [], 5);
+console.log('Drawdown Episodes:', swingDrawdowns.episodes.length, '(Expected 2)');
+console.log('Deepest Recovery:', swingDrawdowns.episodes[0].recoveryDate, '(Expected 2021-01-03)');
+console.log('Open Drawdown Recovery:', swingDrawdowns.episodes[1].recoveryDate, '(Expected null)');
+
+// Rolling metrics: a 90-day window every 10 days fits three samples into a 120-day range
+const growthValues = Array.from({ length: 120 }, (_, i) => ({
+    date: new Date(Date.UTC(2021, 0, 1 + i)).toISOString().split('T')[0],
+    value: 100 * (1 + 0.01 * i) * (1 + 0.02 * Math.sin(i)),
+}));
+const weekdayBenchmark = growthValues.filter(point => ![0, 6].includes(new Date(point.date).getUTCDay()));
+const rolling = calculateRollingMetrics(growthValues, 0.03, { windowDays: 90, stepDays: 10, benchmarkValues: weekdayBenchmark });
+console.log('Rolling Samples:', rolling.length, '(Expected 3)');
+
+// Benchmark alignment: portfolio and benchmark returns span the same trading days, so a weekday benchmark
+// that matches a 24/7 portfolio on its trading days has beta and correlation 1, per window and overall
+const weekdayMetrics = calculateBenchmarkMetrics(growthValues, weekdayBenchmark);
+console.log('Rolling Beta:', rolling[0].beta?.toFixed(4), '(Expected 1.0000)');
+console.log('Weekday Benchmark Beta:', weekdayMetrics?.beta.toFixed(4), '(Expected 1.0000)');
+console.log('Weekday Benchmark Correlation:', weekdayMetrics?.correlation.toFixed(4), '(Expected 1.0000)');
+
+// Correlation matrix: a series and its double move together, a mirror image moves the opposite way
+const pairedData = growthValues.map(point => ({
+    date: point.date,
+    A: point.value,
+    B: point.value * 2,
+    C: 10000 / point.value,
+}));
+const correlationMatrix = calculateCorrelationMatrix(pairedData, ['A', 'B', 'C'], 'weekly');
+console.log('Correlation A/B:', correlationMatrix.correlations[0][1]?.toFixed(4), '(Expected 1.0000)');
+console.log('Correlation A/C Negative:', (correlationMatrix.correlations[0][2] ?? 0) < -0.9);
+
+// Attribution: asset contributions plus the residual add up to the time-weighted return
+const attribution = calculateAttribution(flatData, ledgered.holdings ?? [], ledgered.values, ledgered.cashFlows, { BTC: 1 });
+const explainedReturn = attribution.assets.reduce((sum, asset) => sum + asset.returnContribution, 0) + attribution.residualReturn;
+console.log('Attribution Adds Up:', Math.abs(explainedReturn - attribution.totalReturn) < 1e-12);
+
+// Attribution with a cash sleeve: the sleeve has no price column but must not empty the covariance window
+const sleeveData = growthValues.map(point => ({ date: point.date, BTC: point.value }));
+const sleeveHistory = calculatePortfolioHistory(sleeveData, { BTC: 80, USDC: 20 }, initial, 'none', { recordLedger: true });
+const sleeveAttribution = calculateAttribution(sleeveData, sleeveHistory.holdings ?? [], sleeveHistory.values, sleeveHistory.cashFlows, { BTC: 0.8, USDC: 0.2 });
+console.log('Cash Sleeve Observations:', sleeveAttribution.observations, '(Expected 119)');
+console.log('Cash Sleeve Risk Share:', sleeveAttribution.assets.find(asset => asset.ticker === 'USDC')?.riskShare, '(Expected 0)');
+console.log('Cash Sleeve Volatility Positive:', sleeveAttribution.volatility > 0);
+
+// Attribution from a $0 start: the return is measured from the first contribution, not divided by zero
+const zeroStart = calculatePortfolioHistory(flatData, weights, 0, 'none', {
+    cashFlowSchedule: { type: 'contribution', amount: 100, frequency: 'weekly', allocation: 'target-weights' },
+    recordLedger: true,
+});
+const zeroStartAttribution = calculateAttribution(flatData, zeroStart.holdings ?? [], zeroStart.values, zeroStart.cashFlows, { BTC: 1 });
+console.log('Zero Start Total Return:', zeroStartAttribution.totalReturn, '(Expected 0)');
+
+// Optimizer: a 40% cap on the better asset binds, and whole-percent weights still add up to 100
+const optimizerData = growthValues.map((point, i) => ({
+    date: point.date,
+    X: point.value,
+    Y: 100 * (1 + 0.002 * i) * (1 + 0.02 * Math.cos(i)),
+}));
+const frontier = calculateEfficientFrontier(optimizerData, ['X', 'Y'], { X: { min: 0, max: 0.4 } });
+const rounded = roundWeightsToPercent(frontier?.maxSharpe.weights ?? {});
+console.log('Max-Sharpe Cap Respected:', (frontier?.maxSharpe.weights.X ?? 1) <= 0.4 + 1e-9);
+console.log('Rounded Weights Total:', Object.values(rounded).reduce((sum, w) => sum + w, 0), '(Expected 100)');
+
+// Optimizer with a cash sleeve: USDC has no price column but is a riskless asset at the cash yield
+const cashFrontier = calculateEfficientFrontier(optimizerData, ['X', 'Y', 'USDC'], {}, 0.03, undefined, 0.05);
+const cashOnly = evaluateWeights(optimizerData, ['X', 'Y', 'USDC'], { USDC: 1 }, 0.03, 0.05);
+console.log('Cash Sleeve Frontier Found:', cashFrontier !== null);
+console.log('Cash Sleeve Min Variance:', cashFrontier?.minVariance.weights.USDC.toFixed(4), '(Expected 1.0000)');
+console.log('Cash Only Return:', cashOnly?.expectedReturn, cashOnly?.volatility, '(Expected 0.05 0)');
+
+// Weighting: equal weighting overrides the manual targets at the start and at every monthly rebalance
+const weighted = calculatePortfolioHistory(optimizerData, { X: 90, Y: 10 }, initial, 'monthly', {
+    weighting: createWeightingFunction('equal'),
+});
+const firstTargets = weighted.targetHistory?.[0].weights ?? {};
+console.log('Weighting Rebalances:', weighted.targetHistory?.length, '(Expected 4)');
+console.log('Equal Target Weight:', firstTargets.X, '(Expected 50)');
+
+// Inverse volatility: A swings between 100 and 104 and B between 100 and 101, so A is about four times as
+// volatile and gets about a fifth of the portfolio (0.0199 / (0.0785 + 0.0199) = 20.2%).
+// Without earlier prices day 0 has no lookback and falls back to equal weights; with them it doesn't
+const volatilityData = Array.from({ length: 60 }, (_, i) => ({
+    date: new Date(Date.UTC(2021, 0, 1 + i)).toISOString().split('T')[0],
+    A: 100 * (i % 2 === 0 ? 1 : 1.04),
+    B: 100 * (i % 2 === 0 ? 1 : 1.01),
+}));
+const inverseVolatility = createWeightingFunction('inverse-volatility', { lookbackDays: 30 });
+const withoutHistory = calculatePortfolioHistory(volatilityData.slice(30), { A: 50, B: 50 }, initial, 'none', { weighting: inverseVolatility });
+const withHistory = calculatePortfolioHistory(volatilityData.slice(30), { A: 50, B: 50 }, initial, 'none', {
+    weighting: inverseVolatility,
+    weightingHistory: volatilityData.slice(0, 30),
+});
+console.log('Inverse Vol Day 0 (no history):', withoutHistory.targetHistory?.[0].weights.A, '(Expected 50)');
+console.log('Inverse Vol Day 0 (with history):', withHistory.targetHistory?.[0].weights.A.toFixed(1), '(Expected 20.2)');
+
+// Projection: paths bootstrapped from a steadily rising history never lose money, and contributions count as invested
+const projection = projectPortfolio(growthValues.map((point, i) => ({ date: point.date, BTC: 100 * Math.pow(1.001, i) })), { BTC: 100 }, initial, 'none', {
+    years: 1,
+    paths: 50,
+    simulation: { cashFlowSchedule: { type: 'contribution', amount: 100, frequency: 'monthly', allocation: 'target-weights' } },
+});
+const projectionOdds = projection ? calculateProjectionOdds(projection, initial * 2, 0) : null;
+console.log('Projection Loss Probability:', projectionOdds?.lossProbability, '(Expected 0)');
+console.log('Projection Invested:', projection?.invested[0], '(Expected 2200)');
+
+// Batched projection: yielding between paths doesn't change the draws, so the same seed gives the same paths
+const batchedMarketData = growthValues.map(point => ({ date: point.date, BTC: point.value }));
+const syncProjection = projectPortfolio(batchedMarketData, { BTC: 100 }, initial, 'none', { years: 1, paths: 20, seed: 7 });
+projectPortfolioInBatches(batchedMarketData, { BTC: 100 }, initial, 'none', { years: 1, paths: 20, seed: 7 }).then(batchedProjection => {
+    console.log('Batched Projection Matches:', JSON.stringify(batchedProjection?.finalValues) === JSON.stringify(syncProjection?.finalValues), '(Expected true)');
+});
+
+// Market data cache: only the dates outside the fetched ranges are requested again
+const missingRanges = findMissingRanges([['2020-01-05', '2020-01-10']], '2020-01-01', '2020-01-20');
+console.log('Missing Ranges:', JSON.stringify(missingRanges), '(Expected [["2020-01-01","2020-01-04"],["2020-01-11","2020-01-20"]])');
+
+// Data quality: a doubled price is a jump, a week without prices is a gap, and a repeated price is stale
+const qualitySeries = {
+    X: [
+        { date: '2021-01-01', price: 100 }, { date: '2021-01-02', price: 200 }, { date: '2021-01-10', price: 200 },
+        { date: '2021-01-11', price: 200 }, { date: '2021-01-12', price: 200 }, { date: '2021-01-13', price: 200 },
+    ],
+};
+const qualityReport = assessDataQuality(qualitySeries, [], ['X', 'Y'], { Y: 'rate limited' });
+console.log('Quality Jumps:', qualityReport.X.jumps.length, '(Expected 1)');
+console.log('Quality Longest Gap:', qualityReport.X.longestGapDays, '(Expected 7)');
+console.log('Quality Stale Run:', qualityReport.X.staleRuns[0]?.days, '(Expected 5)');
+console.log('Quality Fetch Failed:', qualityReport.Y.fetchFailed, qualityReport.Y.firstDate, '(Expected true null)');